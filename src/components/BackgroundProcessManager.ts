@@ -0,0 +1,346 @@
+import * as vscode from 'vscode';
+import { ChildProcess } from 'child_process';
+import { Logger } from './Logger';
+import { CommandExecutor, stripAnsi } from './CommandExecutor';
+import { ResolvedShell, ShellResolver } from './ShellResolver';
+import { CommandLog } from './CommandLog';
+import { fitToTokenBudget } from './outputSummary';
+
+// Oldest output is dropped past this size so long-running servers don't grow without bound
+const MAX_OUTPUT_CHARS = 1_000_000;
+const STOP_GRACE_MS = 2000;
+
+export type ReadyReason = 'pattern' | 'delay' | 'exited' | 'timeout';
+
+export interface BackgroundProcess {
+    id: string;
+    command: string;
+    cwd: string;
+    shell: string;
+    startTime: number;
+    status: 'running' | 'exited';
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    error?: string;
+}
+
+export interface StartOptions {
+    shell: ResolvedShell;
+    cwd: string;
+    /** Output that signals the process is ready, e.g. /listening on/ */
+    readyPattern?: RegExp;
+    /** How long to wait when there is no ready pattern */
+    readyDelayMs: number;
+    /** Longest time to wait for the ready pattern */
+    readyTimeoutMs: number;
+    token?: vscode.CancellationToken;
+}
+
+export interface ProcessOutput {
+    process: BackgroundProcess;
+    /** Output since the previous read, with ANSI sequences removed */
+    output: string;
+    /** Characters that were dropped from the buffer before they could be read */
+    droppedChars: number;
+    ready?: ReadyReason;
+}
+
+interface ProcessEntry {
+    info: BackgroundProcess;
+    child: ChildProcess;
+    terminal: vscode.Terminal;
+    writeEmitter: vscode.EventEmitter<string>;
+    output: string;
+    /** Absolute offset of output[0] in everything the process has written */
+    outputStart: number;
+    readOffset: number;
+    closed: Promise<void>;
+}
+
+function toTerminal(text: string): string {
+    return text.replace(/\r?\n/g, '\r\n');
+}
+
+/**
+ * Keeps track of commands started with `background: true`. Each process gets a
+ * terminal mirroring its output, and the model reads new output, sends input
+ * and stops processes by id.
+ */
+export class BackgroundProcessManager {
+    private static instance: BackgroundProcessManager;
+    private readonly processes = new Map<string, ProcessEntry>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private nextId = 1;
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    private constructor() {}
+
+    static getInstance(): BackgroundProcessManager {
+        if (!BackgroundProcessManager.instance) {
+            BackgroundProcessManager.instance = new BackgroundProcessManager();
+        }
+        return BackgroundProcessManager.instance;
+    }
+
+    list(): BackgroundProcess[] {
+        return [...this.processes.values()].map(entry => entry.info);
+    }
+
+    /**
+     * Starts a process and resolves once it is ready: the ready pattern appeared,
+     * the ready delay passed, the process exited, or the wait timed out. The
+     * process keeps running in every case except cancellation.
+     */
+    start(command: string, options: StartOptions): Promise<ProcessOutput> {
+        // A token cancelled already never fires, so the process would wait out the whole ready timeout
+        if (options.token?.isCancellationRequested) {
+            return Promise.reject(new Error('Command cancelled'));
+        }
+        const id = `proc-${this.nextId++}`;
+        const child = CommandExecutor.spawn(command, options.shell, options.cwd);
+        const writeEmitter = new vscode.EventEmitter<string>();
+        const entry: ProcessEntry = {
+            info: {
+                id,
+                command,
+                cwd: options.cwd,
+                shell: ShellResolver.describe(options.shell),
+                startTime: Date.now(),
+                status: 'running',
+                exitCode: null,
+                signal: null
+            },
+            child,
+            writeEmitter,
+            terminal: vscode.window.createTerminal({
+                name: `Cogent: ${command}`,
+                pty: {
+                    onDidWrite: writeEmitter.event,
+                    open: () => writeEmitter.fire(toTerminal(`> ${command}\n`)),
+                    close: () => {
+                        // Closing the terminal stops the process it belongs to
+                        this.stopInBackground(id);
+                        writeEmitter.dispose();
+                    },
+                    handleInput: (data: string) => {
+                        writeEmitter.fire(toTerminal(data.replace(/\r/g, '\n')));
+                        child.stdin?.write(data.replace(/\r/g, '\n'));
+                    }
+                }
+            }),
+            output: '',
+            outputStart: 0,
+            readOffset: 0,
+            closed: new Promise(resolve => child.on('close', () => resolve()))
+        };
+        this.processes.set(id, entry);
+        this.changeEmitter.fire();
+        Logger.getInstance().info(`Started background process ${id}: ${command}`);
+
+        child.stdout?.setEncoding('utf8');
+        child.stderr?.setEncoding('utf8');
+        const append = (data: string) => {
+            entry.output += data;
+            if (entry.output.length > MAX_OUTPUT_CHARS) {
+                const dropped = entry.output.length - MAX_OUTPUT_CHARS;
+                entry.output = entry.output.slice(dropped);
+                entry.outputStart += dropped;
+            }
+            writeEmitter.fire(toTerminal(data));
+        };
+        child.stdout?.on('data', append);
+        child.stderr?.on('data', append);
+
+        child.on('error', (error) => {
+            entry.info.error = `Failed to start ${options.shell.path}: ${error.message}`;
+            entry.info.status = 'exited';
+            Logger.getInstance().error(entry.info.error);
+            this.changeEmitter.fire();
+        });
+        child.on('close', (exitCode, signal) => {
+            entry.info.status = 'exited';
+            entry.info.exitCode = exitCode;
+            entry.info.signal = signal;
+            writeEmitter.fire(toTerminal(`\n[Exited with ${exitCode ?? signal ?? entry.info.error}]\n`));
+            this.changeEmitter.fire();
+        });
+
+        return this.waitUntilReady(entry, options);
+    }
+
+    /**
+     * Formats process output within a token budget, saving the full output to
+     * a command log when it has to be truncated.
+     */
+    static async formatOutputWithin(
+        result: ProcessOutput,
+        tokenization: vscode.LanguageModelToolTokenizationOptions | undefined
+    ): Promise<string> {
+        return fitToTokenBudget(
+            { output: result.output },
+            (streams, note) => BackgroundProcessManager.formatOutput({ ...result, ...streams }, note),
+            tokenization,
+            () => CommandLog.saveStreams({ output: result.output })
+        );
+    }
+
+    /**
+     * Returns the output written since the previous read.
+     */
+    read(id: string): ProcessOutput {
+        const entry = this.getEntry(id);
+        const droppedChars = Math.max(0, entry.outputStart - entry.readOffset);
+        const from = Math.max(entry.readOffset, entry.outputStart) - entry.outputStart;
+        entry.readOffset = entry.outputStart + entry.output.length;
+        return { process: entry.info, output: stripAnsi(entry.output.slice(from)), droppedChars };
+    }
+
+    write(id: string, input: string): void {
+        const entry = this.getEntry(id);
+        if (entry.info.status !== 'running' || !entry.child.stdin?.writable) {
+            throw new Error(`Process ${id} is no longer running`);
+        }
+        entry.child.stdin.write(input);
+        entry.writeEmitter.fire(toTerminal(input));
+    }
+
+    /**
+     * Stops a process and everything it started, then forgets it. Returns the
+     * output that had not been read yet.
+     */
+    async stop(id: string): Promise<ProcessOutput> {
+        const entry = this.getEntry(id);
+        // The process group is killed even after the shell exits, in case it left children behind
+        CommandExecutor.kill(entry.child);
+        if (entry.info.status === 'running') {
+            await Promise.race([entry.closed, new Promise(resolve => setTimeout(resolve, STOP_GRACE_MS))]);
+            Logger.getInstance().info(`Stopped background process ${id}`);
+        }
+        const result = this.read(id);
+        this.processes.delete(id);
+        entry.writeEmitter.fire(toTerminal('\n[Stopped]\n'));
+        this.changeEmitter.fire();
+        return result;
+    }
+
+    show(id: string): void {
+        this.getEntry(id).terminal.show();
+    }
+
+    dispose(): void {
+        for (const entry of this.processes.values()) {
+            CommandExecutor.kill(entry.child);
+            entry.writeEmitter.dispose();
+        }
+        this.processes.clear();
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Formats process output as a fixed block, mirroring command results.
+     */
+    static formatOutput(result: ProcessOutput, note?: string): string {
+        const { process } = result;
+        const status = process.status === 'running'
+            ? 'running'
+            : `exited (exit_code: ${process.exitCode ?? (process.signal ? `killed by ${process.signal}` : 'unknown')})`;
+
+        const lines = [
+            `<background_process>`,
+            `id: ${process.id}`,
+            `command: ${process.command}`,
+            `cwd: ${process.cwd}`,
+            `shell: ${process.shell}`,
+            `status: ${status}`,
+            `uptime: ${((Date.now() - process.startTime) / 1000).toFixed(2)}s`
+        ];
+        if (result.ready) {
+            lines.push(`ready: ${result.ready}`);
+        }
+        if (process.error) {
+            lines.push(`error: ${process.error}`);
+        }
+        if (result.droppedChars > 0) {
+            lines.push(`note: ${result.droppedChars} characters of older output were discarded`);
+        }
+        if (note) {
+            lines.push(`note: ${note}`);
+        }
+        const output = result.output.trimEnd();
+        lines.push(output ? `<new_output>\n${output}\n</new_output>` : `<new_output></new_output>`);
+        lines.push(`</background_process>`);
+        return lines.join('\n');
+    }
+
+    /**
+     * Stops a process from an event handler, where it may already have been stopped.
+     */
+    private stopInBackground(id: string): void {
+        if (this.processes.has(id)) {
+            this.stop(id).catch(error => Logger.getInstance().warn(`Failed to stop background process ${id}: ${error}`));
+        }
+    }
+
+    private getEntry(id: string): ProcessEntry {
+        const entry = this.processes.get(id);
+        if (!entry) {
+            const known = [...this.processes.keys()];
+            throw new Error(`No background process with id ${id}. ${known.length ? `Known ids: ${known.join(', ')}` : 'No background processes are running.'}`);
+        }
+        return entry;
+    }
+
+    private waitUntilReady(entry: ProcessEntry, options: StartOptions): Promise<ProcessOutput> {
+        return new Promise((resolve, reject) => {
+            const disposables: vscode.Disposable[] = [];
+            let settled = false;
+
+            const finish = (ready: ReadyReason) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                disposables.forEach(disposable => disposable.dispose());
+                resolve({ ...this.read(entry.info.id), ready });
+            };
+
+            const timer = setTimeout(
+                () => finish(options.readyPattern ? 'timeout' : 'delay'),
+                options.readyPattern ? options.readyTimeoutMs : options.readyDelayMs
+            );
+            disposables.push({ dispose: () => clearTimeout(timer) });
+
+            if (options.readyPattern) {
+                const pattern = options.readyPattern;
+                const check = () => {
+                    const unread = entry.output.slice(Math.max(0, entry.readOffset - entry.outputStart));
+                    if (pattern.test(stripAnsi(unread))) {
+                        finish('pattern');
+                    }
+                };
+                entry.child.stdout?.on('data', check);
+                entry.child.stderr?.on('data', check);
+                disposables.push({
+                    dispose: () => {
+                        entry.child.stdout?.off('data', check);
+                        entry.child.stderr?.off('data', check);
+                    }
+                });
+            }
+
+            const onClose = () => finish('exited');
+            entry.child.on('close', onClose);
+            disposables.push({ dispose: () => entry.child.off('close', onClose) });
+
+            if (options.token) {
+                disposables.push(options.token.onCancellationRequested(() => {
+                    settled = true;
+                    disposables.forEach(disposable => disposable.dispose());
+                    this.stopInBackground(entry.info.id);
+                    reject(new Error('Command cancelled'));
+                }));
+            }
+        });
+    }
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { BackgroundProcess, BackgroundProcessManager } from './BackgroundProcessManager';
+
+function formatUptime(startTime: number): string {
+    const seconds = Math.floor((Date.now() - startTime) / 1000);
+    if (seconds < 60) {
+        return `${seconds}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Lists background processes in the "Cogent Processes" view.
+ */
+export class BackgroundProcessTreeProvider implements vscode.TreeDataProvider<BackgroundProcess> {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly manager: BackgroundProcessManager) {
+        manager.onDidChange(() => this.changeEmitter.fire());
+    }
+
+    getChildren(element?: BackgroundProcess): BackgroundProcess[] {
+        return element ? [] : this.manager.list();
+    }
+
+    getTreeItem(process: BackgroundProcess): vscode.TreeItem {
+        const item = new vscode.TreeItem(process.command, vscode.TreeItemCollapsibleState.None);
+        item.id = process.id;
+        item.contextValue = `cogentProcess.${process.status}`;
+        item.tooltip = new vscode.MarkdownString(
+            `\`${process.command}\`\n\n${process.id} · ${process.shell} · ${process.cwd}`
+        );
+
+        if (process.status === 'running') {
+            item.description = `${process.id} · running ${formatUptime(process.startTime)}`;
+            item.iconPath = new vscode.ThemeIcon('sync~spin');
+        } else {
+            const failed = process.exitCode !== 0;
+            item.description = `${process.id} · exited ${process.exitCode ?? process.signal ?? 'with error'}`;
+            item.iconPath = new vscode.ThemeIcon(failed ? 'error' : 'pass');
+        }
+
+        item.command = {
+            command: 'cogent.showBackgroundProcess',
+            title: 'Show Output',
+            arguments: [process]
+        };
+        return item;
+    }
+}
@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from './Logger';
+import { findOpenDocument, replaceText } from './openDocuments';
+
+// Older checkpoints are deleted once there are more than this many
+const MAX_CHECKPOINTS = 30;
+// Directories bigger than this are refused rather than deleted or moved without a checkpoint
+const MAX_DIRECTORY_ENTRIES = 2000;
+
+export interface CheckpointEntry {
+    /** Absolute path */
+    path: string;
+    kind: 'file' | 'directory';
+    /** Whether the path existed before the turn; if not, reverting removes it */
+    existed: boolean;
+    /** File holding the content on disk before the turn */
+    blob?: string;
+    /** File holding unsaved editor content the file had before the turn */
+    unsavedBlob?: string;
+}
+
+export interface Checkpoint {
+    id: string;
+    /** The chat prompt that started the turn */
+    prompt: string;
+    createdAt: number;
+    entries: CheckpointEntry[];
+}
+
+export interface RecordOptions {
+    /**
+     * Record the content on disk even if the file has unsaved changes, for
+     * files whose editor was changed as a side effect before they could be recorded.
+     */
+    fromDisk?: boolean;
+    /** The path is about to be created as a directory */
+    directory?: boolean;
+}
+
+async function pathKind(fullPath: string): Promise<'file' | 'directory' | undefined> {
+    try {
+        return (await fs.stat(fullPath)).isDirectory() ? 'directory' : 'file';
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Records the state of every file a chat turn changes before the first
+ * change, so the whole turn can be reverted. Tools call recordBefore; the
+ * chat participant opens and closes turns.
+ */
+export class CheckpointManager {
+    private static directory = path.join(os.tmpdir(), 'cogent-checkpoints');
+    private static checkpoints: Checkpoint[] = [];
+    private static active?: Checkpoint;
+    private static counter = 0;
+
+    /**
+     * Sets where checkpoints are stored, normally the extension's storage
+     * folder, and loads the ones from earlier sessions.
+     */
+    static async initialize(directory: string): Promise<void> {
+        CheckpointManager.directory = path.join(directory, 'checkpoints');
+        try {
+            const ids = await fs.readdir(CheckpointManager.directory);
+            const loaded = await Promise.all(ids.map(async id => {
+                try {
+                    return JSON.parse(await fs.readFile(path.join(CheckpointManager.directory, id, 'manifest.json'), 'utf-8')) as Checkpoint;
+                } catch {
+                    return undefined;
+                }
+            }));
+            // Turns may already have started while loading
+            CheckpointManager.checkpoints = [
+                ...loaded.filter((checkpoint): checkpoint is Checkpoint => !!checkpoint),
+                ...CheckpointManager.checkpoints
+            ].sort((a, b) => a.createdAt - b.createdAt);
+        } catch {
+            // No checkpoints yet
+        }
+    }
+
+    /**
+     * Starts recording a chat turn and returns its checkpoint id.
+     */
+    static beginTurn(prompt: string): string {
+        const id = `turn-${Date.now()}-${++CheckpointManager.counter}`;
+        CheckpointManager.active = { id, prompt, createdAt: Date.now(), entries: [] };
+        return id;
+    }
+
+    /**
+     * Stops recording and returns the turn's checkpoint, if it changed any files.
+     */
+    static endTurn(): Checkpoint | undefined {
+        const checkpoint = CheckpointManager.active;
+        CheckpointManager.active = undefined;
+        return checkpoint?.entries.length ? checkpoint : undefined;
+    }
+
+    static list(): Checkpoint[] {
+        return [...CheckpointManager.checkpoints];
+    }
+
+    /**
+     * Records a path before a tool changes, creates or deletes it. Only the
+     * first call per path in a turn counts, so the checkpoint holds the
+     * state from before the turn. Does nothing outside a chat turn.
+     * @throws Error if the path can't be recorded, so the tool doesn't change it
+     */
+    static async recordBefore(fullPath: string, options: RecordOptions = {}): Promise<void> {
+        const checkpoint = CheckpointManager.active;
+        if (!checkpoint) {
+            return;
+        }
+
+        const kind = await pathKind(fullPath);
+        if (kind === 'directory' && options.directory) {
+            // Creating a directory that exists changes nothing
+            return;
+        }
+        if (!kind) {
+            // Parent directories the change creates are removed again too
+            const missing = [fullPath];
+            for (let parent = path.dirname(fullPath); parent !== path.dirname(parent) && !await pathKind(parent); parent = path.dirname(parent)) {
+                missing.push(parent);
+            }
+            for (const missingPath of missing.reverse()) {
+                await CheckpointManager.addEntry(checkpoint, {
+                    path: missingPath,
+                    kind: missingPath === fullPath && !options.directory ? 'file' : 'directory',
+                    existed: false
+                });
+            }
+            return;
+        }
+
+        if (kind === 'file') {
+            await CheckpointManager.recordFile(checkpoint, fullPath, options);
+            return;
+        }
+
+        const entries = await fs.readdir(fullPath, { recursive: true, withFileTypes: true });
+        if (entries.length > MAX_DIRECTORY_ENTRIES) {
+            throw new Error(`${fullPath} holds ${entries.length} entries, too many to checkpoint (the limit is ${MAX_DIRECTORY_ENTRIES})`);
+        }
+        await CheckpointManager.addEntry(checkpoint, { path: fullPath, kind: 'directory', existed: true });
+        for (const entry of entries) {
+            const entryPath = path.join(entry.parentPath ?? entry.path, entry.name);
+            if (entry.isDirectory()) {
+                await CheckpointManager.addEntry(checkpoint, { path: entryPath, kind: 'directory', existed: true });
+            } else if (entry.isFile()) {
+                await CheckpointManager.recordFile(checkpoint, entryPath, options);
+            }
+        }
+    }
+
+    private static async recordFile(checkpoint: Checkpoint, fullPath: string, options: RecordOptions): Promise<void> {
+        if (checkpoint.entries.some(entry => entry.path === fullPath)) {
+            return;
+        }
+        const turnDirectory = path.join(CheckpointManager.directory, checkpoint.id);
+        await fs.mkdir(turnDirectory, { recursive: true });
+
+        const index = checkpoint.entries.length;
+        const blob = `${index}.bin`;
+        await fs.copyFile(fullPath, path.join(turnDirectory, blob));
+
+        let unsavedBlob: string | undefined;
+        const document = findOpenDocument(fullPath);
+        if (document?.isDirty && !options.fromDisk) {
+            unsavedBlob = `${index}.unsaved`;
+            await fs.writeFile(path.join(turnDirectory, unsavedBlob), document.getText(), 'utf-8');
+        }
+        await CheckpointManager.addEntry(checkpoint, { path: fullPath, kind: 'file', existed: true, blob, unsavedBlob });
+    }
+
+    private static async addEntry(checkpoint: Checkpoint, entry: CheckpointEntry): Promise<void> {
+        if (checkpoint.entries.some(existing => existing.path === entry.path)) {
+            return;
+        }
+        checkpoint.entries.push(entry);
+
+        // The manifest is saved as the turn goes, so a checkpoint survives a turn that fails halfway
+        const turnDirectory = path.join(CheckpointManager.directory, checkpoint.id);
+        await fs.mkdir(turnDirectory, { recursive: true });
+        await fs.writeFile(path.join(turnDirectory, 'manifest.json'), JSON.stringify(checkpoint, null, 2), 'utf-8');
+        if (!CheckpointManager.checkpoints.includes(checkpoint)) {
+            CheckpointManager.checkpoints.push(checkpoint);
+            await CheckpointManager.prune();
+        }
+    }
+
+    /**
+     * Turns that would be reverted along with a turn: the turn itself and
+     * every later one, newest first.
+     */
+    static getTurnsFrom(id: string): Checkpoint[] {
+        const index = CheckpointManager.checkpoints.findIndex(checkpoint => checkpoint.id === id);
+        return index === -1 ? [] : CheckpointManager.checkpoints.slice(index).reverse();
+    }
+
+    /**
+     * Restores every file changed by a turn and all later turns to its state
+     * before the turn, and removes files and directories they created.
+     * @returns The restored and removed files
+     */
+    static async revertTo(id: string): Promise<string[]> {
+        const turns = CheckpointManager.getTurnsFrom(id);
+        if (turns.length === 0) {
+            throw new Error('This checkpoint is no longer available');
+        }
+
+        const changed = new Set<string>();
+        // Newest first, so each path ends up as the oldest turn recorded it
+        for (const checkpoint of turns) {
+            for (const entry of await CheckpointManager.restore(checkpoint)) {
+                changed.add(entry);
+            }
+            CheckpointManager.checkpoints = CheckpointManager.checkpoints.filter(existing => existing !== checkpoint);
+            await fs.rm(path.join(CheckpointManager.directory, checkpoint.id), { recursive: true, force: true });
+        }
+        return [...changed];
+    }
+
+    private static async restore(checkpoint: Checkpoint): Promise<string[]> {
+        const turnDirectory = path.join(CheckpointManager.directory, checkpoint.id);
+        const byDepth = (a: CheckpointEntry, b: CheckpointEntry) => a.path.split(path.sep).length - b.path.split(path.sep).length;
+        const changed: string[] = [];
+
+        for (const entry of checkpoint.entries.filter(entry => entry.kind === 'directory' && entry.existed).sort(byDepth)) {
+            await fs.mkdir(entry.path, { recursive: true });
+        }
+
+        for (const entry of checkpoint.entries.filter(entry => entry.kind === 'file')) {
+            try {
+                if (entry.existed && entry.blob) {
+                    await CheckpointManager.restoreFile(entry, turnDirectory);
+                } else if (await pathKind(entry.path)) {
+                    const edit = new vscode.WorkspaceEdit();
+                    edit.deleteFile(vscode.Uri.file(entry.path), { recursive: true, ignoreIfNotExists: true });
+                    await vscode.workspace.applyEdit(edit);
+                }
+                changed.push(entry.path);
+            } catch (error) {
+                Logger.getInstance().error(`Failed to restore ${entry.path}: ${error}`);
+                throw new Error(`Failed to restore ${entry.path}: ${(error as Error).message}`);
+            }
+        }
+
+        // Created directories are removed deepest first, and only once they are empty again
+        for (const entry of checkpoint.entries.filter(entry => entry.kind === 'directory' && !entry.existed).sort(byDepth).reverse()) {
+            try {
+                await fs.rmdir(entry.path);
+            } catch {
+                // Already gone, or holds files the turn didn't create
+            }
+        }
+        return changed;
+    }
+
+    private static async restoreFile(entry: CheckpointEntry, turnDirectory: string): Promise<void> {
+        const content = await fs.readFile(path.join(turnDirectory, entry.blob!));
+        const document = findOpenDocument(entry.path);
+        if (!document) {
+            await fs.mkdir(path.dirname(entry.path), { recursive: true });
+            await fs.writeFile(entry.path, content);
+            return;
+        }
+
+        // Open documents are restored through the editor so unsaved edits don't conflict with the file on disk
+        await replaceText(document, content.toString('utf-8'));
+        await document.save();
+        if (entry.unsavedBlob) {
+            await replaceText(document, await fs.readFile(path.join(turnDirectory, entry.unsavedBlob), 'utf-8'));
+        }
+    }
+
+    private static async prune(): Promise<void> {
+        while (CheckpointManager.checkpoints.length > MAX_CHECKPOINTS) {
+            const oldest = CheckpointManager.checkpoints.shift()!;
+            await fs.rm(path.join(CheckpointManager.directory, oldest.id), { recursive: true, force: true });
+        }
+    }
+}
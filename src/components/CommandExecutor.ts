@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { spawn, ChildProcess } from 'child_process';
+import { Logger } from './Logger';
+import { ResolvedShell, ShellResolver } from './ShellResolver';
+import { CommandLog } from './CommandLog';
+import { fitToTokenBudget } from './outputSummary';
+
+export interface CommandResult {
+    command: string;
+    cwd: string;
+    /** Shell name and version the command ran in */
+    shell: string;
+    /** Exit code of the shell, or null if it was killed by a signal */
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    durationMs: number;
+    timedOut: boolean;
+    stdout: string;
+    stderr: string;
+    /** Set when the shell could not be started */
+    error?: string;
+}
+
+export interface CommandOptions {
+    shell: ResolvedShell;
+    cwd: string;
+    timeoutMs: number;
+    token?: vscode.CancellationToken;
+    /** Called with raw output chunks as they arrive, e.g. to mirror them in a terminal */
+    onOutput?: (data: string, stream: 'stdout' | 'stderr') => void;
+}
+
+export interface RunningCommand {
+    process: ChildProcess;
+    result: Promise<CommandResult>;
+}
+
+export function stripAnsi(text: string): string {
+    return text
+        .replace(/[\u001b\u009b][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g, '')
+        .replace(/\u001b\].*?(?:\u0007|\u001b\\)/g, '') // OSC sequences such as window titles
+        .replace(/\r\n/g, '\n')
+        .replace(/[^\n]*\r(?!\n)/g, ''); // Progress bars redraw the line with a bare \r
+}
+
+export class CommandExecutor {
+    /**
+     * Runs a command through a non-interactive shell with separate stdout and
+     * stderr pipes, so the exit code and output come from the command itself
+     * rather than from an interactive session's transcript.
+     */
+    static start(command: string, options: CommandOptions): RunningCommand {
+        const startTime = Date.now();
+        const child = CommandExecutor.spawn(command, options.shell, options.cwd);
+
+        const result = new Promise<CommandResult>((resolve, reject) => {
+            let stdout = '';
+            let stderr = '';
+            let timedOut = false;
+            let settled = false;
+
+            child.stdout?.setEncoding('utf8');
+            child.stderr?.setEncoding('utf8');
+            child.stdout?.on('data', (data: string) => {
+                stdout += data;
+                options.onOutput?.(data, 'stdout');
+            });
+            child.stderr?.on('data', (data: string) => {
+                stderr += data;
+                options.onOutput?.(data, 'stderr');
+            });
+
+            const timeout = setTimeout(() => {
+                timedOut = true;
+                CommandExecutor.kill(child);
+            }, options.timeoutMs);
+
+            const cancellation = options.token?.onCancellationRequested(() => {
+                CommandExecutor.kill(child);
+                finish(() => reject(new Error('Command cancelled')));
+            });
+
+            const finish = (settle: () => void) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timeout);
+                cancellation?.dispose();
+                settle();
+            };
+
+            const buildResult = (exitCode: number | null, signal: NodeJS.Signals | null, error?: string): CommandResult => ({
+                command,
+                cwd: options.cwd,
+                shell: ShellResolver.describe(options.shell),
+                exitCode,
+                signal,
+                durationMs: Date.now() - startTime,
+                timedOut,
+                stdout: stripAnsi(stdout),
+                stderr: stripAnsi(stderr),
+                error
+            });
+
+            child.on('error', (error) => {
+                Logger.getInstance().error(`Failed to run ${options.shell.path}: ${error.message}`);
+                finish(() => resolve(buildResult(null, null, `Failed to start ${options.shell.path}: ${error.message}`)));
+            });
+
+            // 'close' rather than 'exit' so that all buffered output has been read
+            child.on('close', (exitCode, signal) => {
+                finish(() => resolve(buildResult(exitCode, signal)));
+            });
+        });
+
+        return { process: child, result };
+    }
+
+    static spawn(command: string, shell: ResolvedShell, cwd: string): ChildProcess {
+        const { file, args, windowsVerbatimArguments } = ShellResolver.getInvocation(shell, command);
+        return spawn(file, args, {
+            cwd,
+            windowsVerbatimArguments,
+            env: { ...process.env, TERM: 'dumb', GIT_TERMINAL_PROMPT: '0' },
+            // A separate process group lets a timeout kill everything the command started
+            detached: os.platform() !== 'win32',
+            windowsHide: true
+        });
+    }
+
+    static run(command: string, options: CommandOptions): Promise<CommandResult> {
+        return CommandExecutor.start(command, options).result;
+    }
+
+    /**
+     * Formats a result as a fixed block so the model can read the outcome
+     * without guessing from the output.
+     */
+    static formatResult(result: CommandResult, note?: string): string {
+        const status = result.error
+            ? 'failed to start'
+            : result.exitCode !== null
+                ? String(result.exitCode)
+                : `killed by ${result.signal ?? 'signal'}`;
+
+        const sections = [
+            `<command_result>`,
+            `command: ${result.command}`,
+            `cwd: ${result.cwd}`,
+            `shell: ${result.shell}`,
+            `exit_code: ${status}`,
+            `duration: ${(result.durationMs / 1000).toFixed(2)}s`,
+            `timed_out: ${result.timedOut}`
+        ];
+        if (result.error) {
+            sections.push(`error: ${result.error}`);
+        }
+        if (note) {
+            sections.push(`note: ${note}`);
+        }
+        for (const stream of ['stdout', 'stderr'] as const) {
+            const output = result[stream].trimEnd();
+            sections.push(output ? `<${stream}>\n${output}\n</${stream}>` : `<${stream}></${stream}>`);
+        }
+        sections.push(`</command_result>`);
+        return sections.join('\n');
+    }
+
+    /**
+     * Formats a result within a token budget, saving the full output to a
+     * command log when it has to be truncated.
+     */
+    static async formatResultWithin(
+        result: CommandResult,
+        tokenization: vscode.LanguageModelToolTokenizationOptions | undefined
+    ): Promise<string> {
+        const streams = { stdout: result.stdout, stderr: result.stderr };
+        return fitToTokenBudget(
+            streams,
+            (summarized, note) => CommandExecutor.formatResult({ ...result, ...summarized }, note),
+            tokenization,
+            () => CommandLog.saveStreams(streams)
+        );
+    }
+
+    /**
+     * Kills the shell and everything it started. The process group is killed
+     * even after the shell exits, since background children keep the output
+     * pipes open.
+     */
+    static kill(child: ChildProcess): void {
+        if (child.pid === undefined) {
+            return;
+        }
+        try {
+            if (os.platform() === 'win32') {
+                spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true });
+            } else {
+                process.kill(-child.pid, 'SIGKILL');
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException)?.code !== 'ESRCH') {
+                Logger.getInstance().warn(`Failed to kill process ${child.pid}: ${error}`);
+                child.kill('SIGKILL');
+            }
+        }
+    }
+}
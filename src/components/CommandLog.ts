@@ -0,0 +1,98 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from './Logger';
+
+// Older logs are deleted once there are more than this many
+const MAX_LOGS = 50;
+
+export interface LogPage {
+    logId: string;
+    lines: string[];
+    /** 1-based number of the first returned line */
+    startLine: number;
+    totalLines: number;
+}
+
+/**
+ * Stores the full output of commands whose results were truncated, so the
+ * model can page through it with cogent_readCommandLog.
+ */
+export class CommandLog {
+    private static directory = path.join(os.tmpdir(), 'cogent-logs');
+    private static counter = 0;
+
+    /**
+     * Sets where logs are written, normally the extension's storage folder.
+     */
+    static initialize(directory: string): void {
+        CommandLog.directory = path.join(directory, 'command-logs');
+    }
+
+    /**
+     * Saves a log and returns its id.
+     */
+    static async save(content: string): Promise<string> {
+        await fs.mkdir(CommandLog.directory, { recursive: true });
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const logId = `${timestamp}-${++CommandLog.counter}.log`;
+        await fs.writeFile(path.join(CommandLog.directory, logId), content, 'utf-8');
+        await CommandLog.prune();
+        return logId;
+    }
+
+    /**
+     * Saves each non-empty stream as its own log, so line numbers in a
+     * summary match the log, and describes where to find them.
+     */
+    static async saveStreams(streams: Record<string, string>): Promise<string> {
+        const saved: string[] = [];
+        for (const [name, content] of Object.entries(streams)) {
+            if (!content) {
+                continue;
+            }
+            try {
+                const logId = await CommandLog.save(content);
+                saved.push(`${name} in log_id "${logId}" (${content.replace(/\n$/, '').split('\n').length} lines)`);
+            } catch (error) {
+                Logger.getInstance().error(`Failed to save command log: ${error}`);
+            }
+        }
+        return saved.length
+            ? `Output was truncated to fit the token budget. Full ${saved.join(', ')}; page through it with cogent_readCommandLog.`
+            : 'Output was truncated to fit the token budget.';
+    }
+
+    static async read(logId: string, startLine: number, lineCount: number): Promise<LogPage> {
+        // Log ids are plain file names, so they can't point outside the log folder
+        if (!/^[\w-]+\.log$/.test(logId)) {
+            throw new Error(`Invalid log id ${logId}`);
+        }
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(CommandLog.directory, logId), 'utf-8');
+        } catch {
+            throw new Error(`Log ${logId} not found. Logs are only kept for the ${MAX_LOGS} most recent truncated results.`);
+        }
+
+        const lines = content.replace(/\n$/, '').split('\n');
+        const start = Math.min(Math.max(1, startLine), lines.length);
+        return {
+            logId,
+            lines: lines.slice(start - 1, start - 1 + lineCount),
+            startLine: start,
+            totalLines: lines.length
+        };
+    }
+
+    private static async prune(): Promise<void> {
+        try {
+            const logs = (await fs.readdir(CommandLog.directory)).filter(name => name.endsWith('.log')).sort();
+            for (const name of logs.slice(0, Math.max(0, logs.length - MAX_LOGS))) {
+                await fs.rm(path.join(CommandLog.directory, name), { force: true });
+            }
+        } catch (error) {
+            Logger.getInstance().warn(`Failed to prune command logs: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './Logger';
+import { commandName, splitShellCommands } from './shellCommands';
+
+export type CommandAction = 'allow' | 'confirm' | 'deny';
+
+export interface CommandRule {
+    /** Matches commands starting with these words, e.g. "npm test" */
+    prefix?: string;
+    /** Matches commands against a regular expression */
+    regex?: string;
+    action: CommandAction;
+}
+
+export interface CommandDecision {
+    command: string;
+    action: CommandAction;
+    rule?: CommandRule;
+    source?: string;
+}
+
+export interface PolicyEvaluation {
+    action: CommandAction;
+    decisions: CommandDecision[];
+}
+
+interface RuleSource {
+    name: string;
+    rules: CommandRule[];
+}
+
+const STRICTNESS: Record<CommandAction, number> = { allow: 0, confirm: 1, deny: 2 };
+
+function stricter(a: CommandAction, b: CommandAction): CommandAction {
+    return STRICTNESS[a] >= STRICTNESS[b] ? a : b;
+}
+
+export class CommandPolicy {
+    static readonly WORKSPACE_POLICY_FILE = path.join('.cogent', 'policy.json');
+
+    /**
+     * Evaluates every simple command in a command line against the policy.
+     * Within a rule source the first matching rule wins; across sources, and
+     * across the commands of a compound command line, the strictest action wins.
+     */
+    static async evaluate(commandLine: string): Promise<PolicyEvaluation> {
+        const sources = await CommandPolicy.getRuleSources();
+        const autoConfirm = vscode.workspace.getConfiguration('cogent').get('autoConfirmTools.runCommand', false);
+        const defaultAction: CommandAction = autoConfirm ? 'allow' : 'confirm';
+
+        const commands = splitShellCommands(commandLine);
+        const decisions = commands.map(command => CommandPolicy.decide(command, sources, defaultAction));
+        const action = decisions.length
+            ? decisions.map(decision => decision.action).reduce(stricter)
+            : 'confirm';
+
+        return { action, decisions };
+    }
+
+    static describeRule(rule: CommandRule): string {
+        return rule.regex !== undefined ? `regex \`${rule.regex}\`` : `prefix \`${rule.prefix}\``;
+    }
+
+    /**
+     * Human-readable summary of the decisions that determined the overall action.
+     */
+    static describe(evaluation: PolicyEvaluation): string {
+        const relevant = evaluation.decisions.filter(decision => decision.action === evaluation.action);
+        return relevant
+            .map(decision => decision.rule
+                ? `\`${decision.command}\` → ${decision.action} (${CommandPolicy.describeRule(decision.rule)} from ${decision.source})`
+                : `\`${decision.command}\` → ${decision.action} (no matching rule)`)
+            .join('\n');
+    }
+
+    private static decide(command: string, sources: RuleSource[], defaultAction: CommandAction): CommandDecision {
+        let decision: CommandDecision | undefined;
+        for (const source of sources) {
+            const rule = source.rules.find(rule => CommandPolicy.matches(rule, command));
+            if (rule && (!decision || stricter(rule.action, decision.action) === rule.action)) {
+                decision = { command, action: rule.action, rule, source: source.name };
+            }
+        }
+        return decision ?? { command, action: defaultAction };
+    }
+
+    private static matches(rule: CommandRule, command: string): boolean {
+        if (rule.regex !== undefined) {
+            try {
+                return new RegExp(rule.regex).test(command);
+            } catch (error) {
+                Logger.getInstance().warn(`Invalid command policy regex ${rule.regex}: ${error}`);
+                return false;
+            }
+        }
+        if (rule.prefix === undefined) {
+            return false;
+        }
+        // Commands are checked by name, so "./gradlew" and "/bin/rm" rules match "gradlew" and "rm"
+        const [name, ...args] = rule.prefix.trim().split(/\s+/);
+        const prefix = [commandName(name), ...args].join(' ');
+        return command === prefix || command.startsWith(prefix + ' ');
+    }
+
+    private static async getRuleSources(): Promise<RuleSource[]> {
+        const sources: RuleSource[] = [];
+
+        // Policies shipped with a repository are only honored once the user trusts it
+        const workspaceFolders = vscode.workspace.isTrusted ? vscode.workspace.workspaceFolders ?? [] : [];
+        for (const workspaceFolder of workspaceFolders) {
+            const policyPath = path.join(workspaceFolder.uri.fsPath, CommandPolicy.WORKSPACE_POLICY_FILE);
+            try {
+                const policy = JSON.parse(await fs.readFile(policyPath, 'utf-8'));
+                const name = workspaceFolders.length > 1
+                    ? `${workspaceFolder.name}/${CommandPolicy.WORKSPACE_POLICY_FILE}`
+                    : CommandPolicy.WORKSPACE_POLICY_FILE;
+                sources.push({ name, rules: CommandPolicy.validRules(policy?.rules) });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+                    Logger.getInstance().warn(`Failed to read ${policyPath}: ${error}`);
+                }
+            }
+        }
+
+        const settingsRules = vscode.workspace.getConfiguration('cogent').get<unknown>('commandPolicy', []);
+        sources.push({ name: 'cogent.commandPolicy', rules: CommandPolicy.validRules(settingsRules) });
+
+        return sources;
+    }
+
+    private static validRules(rules: unknown): CommandRule[] {
+        if (!Array.isArray(rules)) {
+            return [];
+        }
+        return rules.filter((rule): rule is CommandRule =>
+            !!rule &&
+            (typeof rule.prefix === 'string' || typeof rule.regex === 'string') &&
+            ['allow', 'confirm', 'deny'].includes(rule.action)
+        );
+    }
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { describePath, isDeniedLocation } from './codeNavigation';
+
+export type DiagnosticsSnapshot = Map<string, vscode.Diagnostic[]>;
+
+export interface FileDiagnostics {
+    uri: vscode.Uri;
+    diagnostics: vscode.Diagnostic[];
+}
+
+// Once diagnostics for an edited file change, they are considered settled after this much quiet
+const QUIET_MS = 400;
+const MAX_LISTED_PER_FILE = 20;
+
+function diagnosticKey(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    // Line numbers are left out so that problems moved by an edit aren't reported as new
+    return `${diagnostic.severity}|${diagnostic.source ?? ''}|${code ?? ''}|${diagnostic.message}`;
+}
+
+function severityName(severity: vscode.DiagnosticSeverity): string {
+    switch (severity) {
+        case vscode.DiagnosticSeverity.Error: return 'error';
+        case vscode.DiagnosticSeverity.Warning: return 'warning';
+        case vscode.DiagnosticSeverity.Information: return 'info';
+        default: return 'hint';
+    }
+}
+
+/**
+ * Collects language server diagnostics so tools can tell the model about
+ * problems an edit introduced.
+ */
+export class DiagnosticsCollector {
+    static snapshot(): DiagnosticsSnapshot {
+        return new Map(vscode.languages.getDiagnostics().map(([uri, diagnostics]) => [uri.toString(), diagnostics]));
+    }
+
+    /**
+     * Waits for language servers to report on the given files: until their
+     * diagnostics have changed and then stayed quiet briefly, or until the
+     * configured settle delay passes.
+     */
+    static waitForSettle(uris: vscode.Uri[], token?: vscode.CancellationToken): Promise<void> {
+        const maxDelay = vscode.workspace.getConfiguration('cogent').get('diagnostics.settleDelay', 2000);
+        const watched = new Set(uris.map(uri => uri.toString()));
+
+        return new Promise(resolve => {
+            let quietTimer: NodeJS.Timeout | undefined;
+            const finish = () => {
+                clearTimeout(maxTimer);
+                clearTimeout(quietTimer);
+                listener.dispose();
+                cancellation?.dispose();
+                resolve();
+            };
+            const maxTimer = setTimeout(finish, maxDelay);
+            const listener = vscode.languages.onDidChangeDiagnostics(event => {
+                if (event.uris.some(uri => watched.has(uri.toString()))) {
+                    clearTimeout(quietTimer);
+                    quietTimer = setTimeout(finish, QUIET_MS);
+                }
+            });
+            const cancellation = token?.onCancellationRequested(finish);
+        });
+    }
+
+    /**
+     * Diagnostics present now that were not in the snapshot, counting
+     * repeated identical problems so a second copy of an error is still new.
+     */
+    static getNew(before: DiagnosticsSnapshot, minSeverity: vscode.DiagnosticSeverity): FileDiagnostics[] {
+        const result: FileDiagnostics[] = [];
+        for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+            const remaining = new Map<string, number>();
+            for (const diagnostic of before.get(uri.toString()) ?? []) {
+                const key = diagnosticKey(diagnostic);
+                remaining.set(key, (remaining.get(key) ?? 0) + 1);
+            }
+
+            const added = diagnostics.filter(diagnostic => {
+                if (diagnostic.severity > minSeverity) {
+                    return false;
+                }
+                const key = diagnosticKey(diagnostic);
+                const count = remaining.get(key) ?? 0;
+                remaining.set(key, count - 1);
+                return count <= 0;
+            });
+            if (added.length && !isDeniedLocation(uri)) {
+                result.push({ uri, diagnostics: added });
+            }
+        }
+        return result;
+    }
+
+    static get(uris: vscode.Uri[] | undefined, minSeverity: vscode.DiagnosticSeverity): FileDiagnostics[] {
+        const entries: [vscode.Uri, vscode.Diagnostic[]][] = uris
+            ? uris.map(uri => [uri, vscode.languages.getDiagnostics(uri)])
+            : vscode.languages.getDiagnostics();
+        return entries
+            .filter(([uri]) => !isDeniedLocation(uri))
+            .map(([uri, diagnostics]) => ({ uri, diagnostics: diagnostics.filter(diagnostic => diagnostic.severity <= minSeverity) }))
+            .filter(entry => entry.diagnostics.length > 0);
+    }
+
+    /**
+     * Formats diagnostics by file as "line:column severity message (source code)"
+     * with the offending line's text.
+     */
+    static async format(files: FileDiagnostics[]): Promise<string> {
+        const sections: string[] = [];
+        for (const { uri, diagnostics } of files) {
+            let document: vscode.TextDocument | undefined;
+            try {
+                document = await vscode.workspace.openTextDocument(uri);
+            } catch {
+                // Problems in files that can't be opened are listed without their text
+            }
+
+            const sorted = [...diagnostics].sort((a, b) => a.severity - b.severity || a.range.start.compareTo(b.range.start));
+            const lines = sorted.slice(0, MAX_LISTED_PER_FILE).map(diagnostic => {
+                const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+                const origin = [diagnostic.source, code].filter(part => part !== undefined && part !== '').join(' ');
+                const position = `${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1}`;
+                const text = document && diagnostic.range.start.line < document.lineCount
+                    ? `\n      ${document.lineAt(diagnostic.range.start.line).text.trim()}`
+                    : '';
+                return `  ${position} ${severityName(diagnostic.severity)} ${diagnostic.message}${origin ? ` (${origin})` : ''}${text}`;
+            });
+            if (sorted.length > MAX_LISTED_PER_FILE) {
+                lines.push(`  ... ${sorted.length - MAX_LISTED_PER_FILE} more`);
+            }
+            sections.push(`📝 ${describePath(uri)}\n${lines.join('\n')}`);
+        }
+        return sections.join('\n\n');
+    }
+
+    /**
+     * Waits for diagnostics on edited files and describes the errors and
+     * warnings the edit introduced, including errors it caused in other files.
+     */
+    static async reportNewProblems(before: DiagnosticsSnapshot, editedUris: vscode.Uri[]): Promise<string> {
+        await DiagnosticsCollector.waitForSettle(editedUris);
+
+        const edited = new Set(editedUris.map(uri => uri.toString()));
+        const problems = DiagnosticsCollector.getNew(before, vscode.DiagnosticSeverity.Warning)
+            .map(({ uri, diagnostics }) => ({
+                uri,
+                // Only errors are reported for files that weren't edited
+                diagnostics: edited.has(uri.toString())
+                    ? diagnostics
+                    : diagnostics.filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error)
+            }))
+            .filter(entry => entry.diagnostics.length > 0);
+
+        if (problems.length === 0) {
+            return 'Diagnostics: no new errors or warnings.';
+        }
+        return `Diagnostics: this edit introduced new problems. Fix them before reporting success:\n${await DiagnosticsCollector.format(problems)}`;
+    }
+}
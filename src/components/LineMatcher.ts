@@ -0,0 +1,336 @@
+export interface LineMatch {
+    index: number;
+    score: number;
+}
+
+// Upper bound on line comparisons while ranking fuzzy candidates, so large
+// files degrade to checking the most promising windows instead of every window
+const FUZZY_LINE_PAIR_BUDGET = 50_000;
+// Lines per window compared while ranking, and windows then scored in full
+const PROBE_LINES = 2;
+const FULLY_SCORED_WINDOWS = 8;
+const HIGH_BIT = 1 << 31;
+
+function normalizeLine(line: string): string {
+    return line.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Bit-vector form of a string for Myers' bit-parallel Levenshtein algorithm,
+ * processed in 32-bit blocks. Comparing against a text of length n takes
+ * O(n * ceil(m / 32)) time and no allocations, so a search line is prepared
+ * once and compared against many file lines.
+ */
+class BitPattern {
+    // Match masks for ASCII characters live in a flat table, others in a map
+    private readonly asciiPeq: Int32Array;
+    private readonly otherPeq = new Map<number, Int32Array>();
+    private readonly noMatch: Int32Array;
+    private readonly pv: Int32Array;
+    private readonly mv: Int32Array;
+    private readonly blockCount: number;
+    private readonly lastBit: number;
+
+    constructor(readonly text: string) {
+        const m = text.length;
+        this.blockCount = Math.max(1, Math.ceil(m / 32));
+        this.lastBit = 1 << ((m - 1) & 31);
+        this.asciiPeq = new Int32Array(128 * this.blockCount);
+        this.noMatch = new Int32Array(this.blockCount);
+        this.pv = new Int32Array(this.blockCount);
+        this.mv = new Int32Array(this.blockCount);
+        for (let i = 0; i < m; i++) {
+            const code = text.charCodeAt(i);
+            if (code < 128) {
+                this.asciiPeq[code * this.blockCount + (i >> 5)] |= 1 << (i & 31);
+                continue;
+            }
+            let masks = this.otherPeq.get(code);
+            if (!masks) {
+                masks = new Int32Array(this.blockCount);
+                this.otherPeq.set(code, masks);
+            }
+            masks[i >> 5] |= 1 << (i & 31);
+        }
+    }
+
+    distance(other: string): number {
+        const m = this.text.length;
+        if (m === 0) return other.length;
+        if (other.length === 0) return m;
+        if (other === this.text) return 0;
+
+        const { pv, mv, blockCount, lastBit } = this;
+        pv.fill(-1);
+        mv.fill(0);
+        let score = m;
+
+        const { asciiPeq } = this;
+        for (let j = 0; j < other.length; j++) {
+            const code = other.charCodeAt(j);
+            const eqs = code < 128 ? asciiPeq : (this.otherPeq.get(code) ?? this.noMatch);
+            const eqOffset = code < 128 ? code * blockCount : 0;
+            // The first row of the global distance matrix always grows by one
+            let hin = 1;
+            for (let k = 0; k < blockCount; k++) {
+                let eq = eqs[eqOffset + k];
+                const pvk = pv[k];
+                const mvk = mv[k];
+                const xv = eq | mvk;
+                if (hin < 0) eq |= 1;
+                const xh = (((eq & pvk) + pvk) ^ pvk) | eq;
+                let ph = mvk | ~(xh | pvk);
+                let mh = pvk & xh;
+
+                const bit = k === blockCount - 1 ? lastBit : HIGH_BIT;
+                const hout = (ph & bit) ? 1 : (mh & bit) ? -1 : 0;
+
+                ph = (ph << 1) | (hin > 0 ? 1 : 0);
+                mh = (mh << 1) | (hin < 0 ? 1 : 0);
+                pv[k] = mh | ~(xv | ph);
+                mv[k] = ph & xv;
+                hin = hout;
+            }
+            score += hin;
+        }
+
+        return score;
+    }
+}
+
+/**
+ * Levenshtein distance between two strings without building a full
+ * (n+1) x (m+1) matrix.
+ */
+export function editDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    return a.length < b.length
+        ? new BitPattern(a).distance(b)
+        : new BitPattern(b).distance(a);
+}
+
+/**
+ * Finds where a block of lines best matches inside a file. Lines are hashed
+ * to integer ids once per file, so exact and whitespace-insensitive matches
+ * are found in roughly linear time. Only when neither exists does it fall back
+ * to a line-aligned fuzzy comparison: windows are ranked by a few probe lines
+ * and only the best-ranked windows are compared line by line.
+ */
+export class LineMatcher {
+    private readonly lines: string[];
+    private readonly rawIndex: LineIndex;
+    private normalized?: { lines: string[]; index: LineIndex };
+
+    constructor(lines: string[]) {
+        this.lines = lines;
+        this.rawIndex = new LineIndex(lines);
+    }
+
+    /**
+     * Similarity between the search lines and the same number of file lines
+     * starting at index, from 0 to 1.
+     */
+    scoreAt(searchLines: string[], index: number): number {
+        if (searchLines.length === 0) return 1;
+        if (index < 0 || index + searchLines.length > this.lines.length) return 0;
+        return this.scoreWindow(searchLines.map(line => new BitPattern(normalizeLine(line))), index, 0);
+    }
+
+    /**
+     * Finds the best window for the search lines starting within
+     * [startIndex, endIndex - searchLines.length]. Ties go to the window
+     * closest to centerIndex, which defaults to the middle of the range.
+     */
+    findBestMatch(searchLines: string[], startIndex: number = 0, endIndex: number = this.lines.length, centerIndex?: number): LineMatch {
+        const m = searchLines.length;
+        const lastStart = Math.min(endIndex, this.lines.length) - m;
+        startIndex = Math.max(0, startIndex);
+        if (m === 0 || lastStart < startIndex) {
+            return { index: -1, score: 0 };
+        }
+        const center = centerIndex ?? Math.floor((startIndex + endIndex) / 2);
+
+        const exact = this.findExact(this.rawIndex, searchLines, startIndex, lastStart, center);
+        if (exact !== -1) {
+            return { index: exact, score: 1 };
+        }
+
+        const normalizedSearch = searchLines.map(normalizeLine);
+        const normalized = this.findExact(this.getNormalized().index, normalizedSearch, startIndex, lastStart, center);
+        if (normalized !== -1) {
+            return { index: normalized, score: 1 };
+        }
+
+        return this.findFuzzy(normalizedSearch, startIndex, lastStart, center);
+    }
+
+    private getNormalized(): { lines: string[]; index: LineIndex } {
+        if (!this.normalized) {
+            const lines = this.lines.map(normalizeLine);
+            this.normalized = { lines, index: new LineIndex(lines) };
+        }
+        return this.normalized;
+    }
+
+    private findExact(index: LineIndex, searchLines: string[], startIndex: number, lastStart: number, center: number): number {
+        // Anchor on the search line that occurs least often in the file
+        let anchor = -1;
+        let anchorPositions: number[] = [];
+        for (let i = 0; i < searchLines.length; i++) {
+            const positions = index.positionsOf(searchLines[i]);
+            if (positions.length === 0) return -1;
+            if (anchor === -1 || positions.length < anchorPositions.length) {
+                anchor = i;
+                anchorPositions = positions;
+            }
+        }
+
+        const ids = searchLines.map(line => index.idOf(line));
+        let best = -1;
+        for (const position of anchorPositions) {
+            const start = position - anchor;
+            if (start < startIndex || start > lastStart) continue;
+            if (best !== -1 && Math.abs(start - center) >= Math.abs(best - center)) continue;
+            if (ids.every((id, i) => index.ids[start + i] === id)) {
+                best = start;
+            }
+        }
+        return best;
+    }
+
+    private findFuzzy(normalizedSearch: string[], startIndex: number, lastStart: number, center: number): LineMatch {
+        const { index, lines } = this.getNormalized();
+        const patterns = normalizedSearch.map(line => new BitPattern(line));
+
+        // Count the lines that already agree for every window start
+        const anchors = new Map<number, number>();
+        let maxAnchors = 0;
+        normalizedSearch.forEach((line, i) => {
+            for (const position of index.positionsOf(line)) {
+                const start = position - i;
+                if (start >= startIndex && start <= lastStart) {
+                    const count = (anchors.get(start) ?? 0) + 1;
+                    anchors.set(start, count);
+                    maxAnchors = Math.max(maxAnchors, count);
+                }
+            }
+        });
+
+        // The longest search lines tell windows apart best
+        const probes = patterns
+            .map((pattern, offset) => ({ pattern, offset }))
+            .sort((a, b) => b.pattern.text.length - a.pattern.text.length)
+            .slice(0, PROBE_LINES);
+
+        const windowCount = lastStart - startIndex + 1;
+        const candidateLimit = Math.max(1, Math.floor(FUZZY_LINE_PAIR_BUDGET / probes.length));
+        let candidates: number[];
+        if (maxAnchors * 2 >= normalizedSearch.length) {
+            // Most lines agree somewhere: only windows close to that agreement can win
+            candidates = [...anchors.keys()].filter(start => anchors.get(start)! * 2 >= maxAnchors);
+        } else if (windowCount <= candidateLimit) {
+            candidates = Array.from({ length: windowCount }, (_, i) => startIndex + i);
+        } else {
+            // Too many windows: keep the most anchored ones and the ones nearest the center
+            const anchored = [...anchors.keys()]
+                .sort((a, b) => (anchors.get(b)! - anchors.get(a)!) || (Math.abs(a - center) - Math.abs(b - center)))
+                .slice(0, candidateLimit);
+            const nearby = candidateLimit - anchored.length;
+            const from = Math.max(startIndex, Math.min(lastStart - nearby + 1, center - Math.floor(nearby / 2)));
+            const starts = new Set(anchored);
+            for (let start = from; start < from + nearby && start <= lastStart; start++) {
+                starts.add(start);
+            }
+            candidates = [...starts];
+        }
+
+        // Rank windows by their probe lines, caching distances for repeated file lines
+        const distanceCache = new Map<number, number>();
+        const ranked = candidates.map(start => {
+            let distance = 0;
+            let total = 0;
+            for (let p = 0; p < probes.length; p++) {
+                const { pattern, offset } = probes[p];
+                const line = start + offset;
+                const key = index.ids[line] * PROBE_LINES + p;
+                let lineDistance = distanceCache.get(key);
+                if (lineDistance === undefined) {
+                    lineDistance = pattern.distance(lines[line]);
+                    distanceCache.set(key, lineDistance);
+                }
+                distance += lineDistance;
+                total += Math.max(pattern.text.length, lines[line].length);
+            }
+            const estimate = total === 0 ? 1 : 1 - distance / total;
+            return { start, estimate, anchors: anchors.get(start) ?? 0 };
+        });
+        ranked.sort((a, b) =>
+            (b.estimate - a.estimate) ||
+            (b.anchors - a.anchors) ||
+            (Math.abs(a.start - center) - Math.abs(b.start - center))
+        );
+
+        let best: LineMatch = { index: -1, score: 0 };
+        for (const { start } of ranked.slice(0, FULLY_SCORED_WINDOWS)) {
+            const score = this.scoreWindow(patterns, start, best.score);
+            if (score > best.score || (score === best.score && best.index !== -1 &&
+                Math.abs(start - center) < Math.abs(best.index - center))) {
+                best = { index: start, score };
+            }
+        }
+        if (best.index === -1) {
+            best = { index: ranked[0].start, score: 0 };
+        }
+        return best;
+    }
+
+    /**
+     * Line-aligned similarity of a window, stopping early once it cannot
+     * reach minScore (the returned score is then only a lower bound).
+     */
+    private scoreWindow(patterns: BitPattern[], start: number, minScore: number): number {
+        const lines = this.getNormalized().lines;
+        let total = 0;
+        for (let i = 0; i < patterns.length; i++) {
+            total += Math.max(lines[start + i].length, patterns[i].text.length);
+        }
+        if (total === 0) return 1;
+
+        const maxDistance = (1 - minScore) * total;
+        let distance = 0;
+        for (let i = 0; i < patterns.length; i++) {
+            distance += patterns[i].distance(lines[start + i]);
+            if (distance > maxDistance) break;
+        }
+        return Math.max(0, 1 - distance / total);
+    }
+}
+
+class LineIndex {
+    readonly ids: Int32Array;
+    private readonly idsByLine = new Map<string, number>();
+    private readonly positions: number[][] = [];
+
+    constructor(lines: string[]) {
+        this.ids = new Int32Array(lines.length);
+        lines.forEach((line, i) => {
+            let id = this.idsByLine.get(line);
+            if (id === undefined) {
+                id = this.positions.length;
+                this.idsByLine.set(line, id);
+                this.positions.push([]);
+            }
+            this.ids[i] = id;
+            this.positions[id].push(i);
+        });
+    }
+
+    idOf(line: string): number {
+        return this.idsByLine.get(line) ?? -1;
+    }
+
+    positionsOf(line: string): number[] {
+        const id = this.idsByLine.get(line);
+        return id === undefined ? [] : this.positions[id];
+    }
+}
@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+
+/**
+ * An entry of cogent.models: which model to use, and optional prompt tweaks
+ * for it.
+ */
+export interface ModelPreference {
+    vendor?: string;
+    family?: string;
+    version?: string;
+    id?: string;
+    /** Extra instructions added to the system prompt for this model */
+    instructions?: string;
+    /** Tool descriptions to send instead of the defaults, by tool name */
+    toolDescriptions?: Record<string, string>;
+}
+
+export interface SelectedModel {
+    model: vscode.LanguageModelChat;
+    /** The cogent.models entry matching the model, for its prompt tweaks */
+    preference?: ModelPreference;
+}
+
+const DEFAULT_MODELS: ModelPreference[] = [
+    { vendor: 'copilot', family: 'claude-3.5-sonnet' },
+    { vendor: 'copilot', family: 'gpt-4o' }
+];
+
+function toSelector(preference: ModelPreference): vscode.LanguageModelChatSelector {
+    const { vendor, family, version, id } = preference;
+    return { vendor, family, version, id };
+}
+
+function matches(preference: ModelPreference, model: vscode.LanguageModelChat): boolean {
+    return (!preference.vendor || preference.vendor === model.vendor) &&
+        (!preference.family || preference.family === model.family) &&
+        (!preference.version || preference.version === model.version) &&
+        (!preference.id || preference.id === model.id);
+}
+
+export function describeModel(model: vscode.LanguageModelChat): string {
+    return `${model.name} (\`${model.vendor}/${model.family}\`${model.version ? `, version ${model.version}` : ''})`;
+}
+
+/**
+ * Picks the language model for a chat request: the one chosen with /model
+ * for this session, otherwise the first available entry of cogent.models.
+ */
+export class ModelSelector {
+    private static sessionModelId?: string;
+
+    static getPreferences(): ModelPreference[] {
+        const preferences = vscode.workspace.getConfiguration('cogent').get<ModelPreference[]>('models', DEFAULT_MODELS);
+        return preferences.length ? preferences : DEFAULT_MODELS;
+    }
+
+    static async select(): Promise<SelectedModel | undefined> {
+        const preferences = ModelSelector.getPreferences();
+
+        if (ModelSelector.sessionModelId) {
+            const [model] = await vscode.lm.selectChatModels({ id: ModelSelector.sessionModelId });
+            if (model) {
+                return { model, preference: preferences.find(preference => matches(preference, model)) };
+            }
+            // The chosen model went away, e.g. the extension providing it was disabled
+            ModelSelector.sessionModelId = undefined;
+        }
+
+        for (const preference of preferences) {
+            const [model] = await vscode.lm.selectChatModels(toSelector(preference));
+            if (model) {
+                return { model, preference };
+            }
+        }
+        return undefined;
+    }
+
+    static getSessionModelId(): string | undefined {
+        return ModelSelector.sessionModelId;
+    }
+
+    /**
+     * Uses a model for the rest of the session, or cogent.models again when
+     * given undefined.
+     */
+    static setSessionModel(model: vscode.LanguageModelChat | undefined): void {
+        ModelSelector.sessionModelId = model?.id;
+    }
+
+    /**
+     * Finds an available model by id, family or name, ignoring case.
+     */
+    static async find(query: string): Promise<vscode.LanguageModelChat | undefined> {
+        const wanted = query.trim().toLowerCase();
+        const models = await vscode.lm.selectChatModels();
+        return models.find(model => model.id.toLowerCase() === wanted) ??
+            models.find(model => `${model.vendor}/${model.family}`.toLowerCase() === wanted) ??
+            models.find(model => model.family.toLowerCase() === wanted) ??
+            models.find(model => model.name.toLowerCase() === wanted);
+    }
+
+    /**
+     * The tools to offer the model, with its tool description variants applied.
+     */
+    static getTools(tools: readonly vscode.LanguageModelToolInformation[], preference?: ModelPreference): vscode.LanguageModelChatTool[] {
+        return tools.map(tool => ({
+            name: tool.name,
+            description: preference?.toolDescriptions?.[tool.name] ?? tool.description,
+            inputSchema: tool.inputSchema
+        }));
+    }
+}
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './Logger';
+import { globToRegExp } from './globMatch';
+import { AGENT_IGNORE_FILE, findAgentIgnoredPath, IgnoreRule } from './ignoreRules';
+
+export interface ResolvedPath {
+    /** Canonical absolute path with symlinks resolved */
+    fullPath: string;
+    /** Path relative to the workspace folder, using forward slashes */
+    relativePath: string;
+    /** Path to show the model: relativePath, prefixed with the folder's name in a multi-root workspace */
+    displayPath: string;
+    workspaceFolder: vscode.WorkspaceFolder;
+}
+
+const DEFAULT_DENIED_PATHS = ['.env', '.env.*', '*.pem', '*.key', '.git/**', '.cogent/policy.json'];
+
+async function realpathOrAncestor(fullPath: string): Promise<string> {
+    // Files that don't exist yet are resolved through their closest existing ancestor
+    const missing: string[] = [];
+    let current = fullPath;
+    while (true) {
+        try {
+            const real = await fs.realpath(current);
+            return path.join(real, ...missing.reverse());
+        } catch {
+            const parent = path.dirname(current);
+            if (parent === current) {
+                return fullPath;
+            }
+            missing.push(path.basename(current));
+            current = parent;
+        }
+    }
+}
+
+function describeIgnoreRule(rule: IgnoreRule): string {
+    return `the pattern "${rule.pattern}" in ${rule.base ? `${rule.base}/` : ''}${AGENT_IGNORE_FILE}`;
+}
+
+async function isDirectory(fullPath: string): Promise<boolean> {
+    try {
+        return (await fs.stat(fullPath)).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+function isInside(folderPath: string, fullPath: string): boolean {
+    const relative = path.relative(folderPath, fullPath);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+export class PathResolver {
+    /**
+     * Resolves a model-supplied path to a canonical path inside the workspace.
+     * In a multi-root workspace, relative paths start with a folder's name
+     * ("folderName/relative/path"); without one, the path must exist in
+     * exactly one folder.
+     * @param inputPath Path relative to the workspace, or an absolute path inside it
+     * @throws Error if the path escapes the workspace, matches the deny-list or
+     *   `.cogentignore`, or is ambiguous
+     */
+    static async resolve(inputPath: string): Promise<ResolvedPath> {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders?.length) {
+            throw new Error('No workspace folder found');
+        }
+        if (!inputPath?.trim()) {
+            throw new Error('File path is required');
+        }
+
+        const named = PathResolver.getNamedFolder(inputPath);
+        const requestedPath = path.isAbsolute(inputPath)
+            ? path.resolve(inputPath)
+            : named
+                ? path.resolve(named.folder.uri.fsPath, named.relativePath)
+                : await PathResolver.findInFolders(inputPath, workspaceFolders);
+        const fullPath = await realpathOrAncestor(requestedPath);
+
+        for (const workspaceFolder of workspaceFolders) {
+            const folderPath = await realpathOrAncestor(workspaceFolder.uri.fsPath);
+            if (!isInside(folderPath, fullPath)) {
+                continue;
+            }
+
+            const relativePath = path.relative(folderPath, fullPath).split(path.sep).join('/');
+            const deniedBy = PathResolver.getDeniedPattern(relativePath);
+            if (deniedBy) {
+                return PathResolver.reject(`Access to ${inputPath} is denied by the pattern "${deniedBy}" in cogent.deniedPaths`);
+            }
+            if (relativePath) {
+                const ignored = await findAgentIgnoredPath(folderPath, [`${relativePath}${await isDirectory(fullPath) ? '/' : ''}`]);
+                if (ignored) {
+                    return PathResolver.reject(`Access to ${inputPath} is denied by ${describeIgnoreRule(ignored.rule)}`);
+                }
+            }
+            return { fullPath, relativePath, displayPath: PathResolver.formatPath(workspaceFolder, relativePath), workspaceFolder };
+        }
+
+        return PathResolver.reject(`Access to ${inputPath} is denied because it resolves outside the workspace`);
+    }
+
+    /**
+     * The workspace folder a relative path names: the folder whose name starts
+     * the path in a multi-root workspace, otherwise the only folder.
+     * @returns undefined for absolute paths and multi-root paths without a folder name
+     */
+    static getNamedFolder(inputPath: string): { folder: vscode.WorkspaceFolder; relativePath: string } | undefined {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        if (path.isAbsolute(inputPath) || !workspaceFolders.length) {
+            return undefined;
+        }
+        if (workspaceFolders.length === 1) {
+            return { folder: workspaceFolders[0], relativePath: inputPath };
+        }
+        const [first, ...rest] = inputPath.replace(/^\.[\\/]/, '').split(/[\\/]/);
+        const folder = workspaceFolders.find(candidate => candidate.name === first);
+        return folder && { folder, relativePath: rest.join('/') };
+    }
+
+    /**
+     * Formats an absolute path, or a relative path as the model wrote it, the
+     * way paths are shown to the model. Paths outside the workspace stay absolute.
+     */
+    static toDisplayPath(filePath: string): string {
+        const relative = path.isAbsolute(filePath) ? vscode.workspace.asRelativePath(filePath) : path.normalize(filePath);
+        return relative.split(path.sep).join('/').replace(/^\.\//, '').replace(/\/$/, '');
+    }
+
+    /**
+     * Formats a folder-relative path the way paths are shown to the model.
+     */
+    static formatPath(workspaceFolder: vscode.WorkspaceFolder, relativePath: string): string {
+        if ((vscode.workspace.workspaceFolders?.length ?? 0) < 2) {
+            return relativePath;
+        }
+        return relativePath ? `${workspaceFolder.name}/${relativePath}` : workspaceFolder.name;
+    }
+
+    /**
+     * Finds the one workspace folder containing a path that doesn't name its folder.
+     */
+    private static async findInFolders(inputPath: string, workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<string> {
+        const candidates = workspaceFolders.map(folder => ({ folder, fullPath: path.resolve(folder.uri.fsPath, inputPath) }));
+        const existing: typeof candidates = [];
+        for (const candidate of candidates) {
+            try {
+                await fs.stat(candidate.fullPath);
+                existing.push(candidate);
+            } catch {
+                // Not in this folder
+            }
+        }
+
+        const names = workspaceFolders.map(folder => folder.name).join(', ');
+        if (existing.length === 1) {
+            return existing[0].fullPath;
+        }
+        const relativePath = inputPath.replace(/^\.[\\/]/, '');
+        if (existing.length > 1) {
+            return PathResolver.reject(
+                `${inputPath} exists in more than one workspace folder; start the path with the folder name, e.g. ${existing.map(({ folder }) => `${folder.name}/${relativePath}`).join(' or ')}`
+            );
+        }
+        return PathResolver.reject(`${inputPath} was not found in any workspace folder; start the path with one of the folder names: ${names}`);
+    }
+
+    /**
+     * Returns the deny-list pattern matching a workspace-relative path, if any.
+     */
+    static getDeniedPattern(relativePath: string): string | undefined {
+        const deniedPaths = vscode.workspace.getConfiguration('cogent').get<string[]>('deniedPaths', DEFAULT_DENIED_PATHS);
+        return deniedPaths.find(pattern => globToRegExp(pattern).test(relativePath));
+    }
+
+    /**
+     * Describes the first path inside a directory that the deny-list or
+     * `.cogentignore` protects, so a whole directory can't be deleted or moved
+     * to get around them.
+     */
+    static async findDeniedDescendant(resolved: ResolvedPath): Promise<string | undefined> {
+        const entries = (await fs.readdir(resolved.fullPath, { recursive: true }))
+            .map(entry => `${resolved.relativePath}/${entry.split(path.sep).join('/')}`);
+        const denied = entries.find(entry => PathResolver.getDeniedPattern(entry));
+        if (denied) {
+            return `${denied}, which cogent.deniedPaths protects`;
+        }
+        const ignored = await findAgentIgnoredPath(resolved.workspaceFolder.uri.fsPath, entries);
+        return ignored && `${ignored.path}, which ${describeIgnoreRule(ignored.rule)} protects`;
+    }
+
+    private static reject(message: string): never {
+        Logger.getInstance().warn(message);
+        throw new Error(message);
+    }
+}
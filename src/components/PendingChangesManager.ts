@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './Logger';
+import { computeLineHunks, LineHunk } from './diffUtils';
+import { findOpenDocument, replaceText } from './openDocuments';
+
+export interface PendingFile {
+    /** Absolute path */
+    path: string;
+    /** Content before Cogent's first change, updated as hunks are accepted */
+    baseline: string;
+    /** Whether the file had no unsaved changes before Cogent's first change */
+    baselineSaved: boolean;
+    /** Whether Cogent created the file */
+    created: boolean;
+}
+
+function sameHunk(a: LineHunk, b: LineHunk): boolean {
+    return a.oldStart === b.oldStart && a.newStart === b.newStart &&
+        a.oldLines.join('\n') === b.oldLines.join('\n') && a.newLines.join('\n') === b.newLines.join('\n');
+}
+
+/**
+ * Tracks the files Cogent changed in this session against their content
+ * before the change, so each change can be reviewed, accepted (saved) or
+ * rejected (restored) by file or by hunk.
+ */
+export class PendingChangesManager {
+    private static instance: PendingChangesManager;
+    static readonly baselineScheme = 'cogent-baseline';
+
+    private files = new Map<string, PendingFile>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly baselineEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private disposables: vscode.Disposable[] = [];
+
+    /** Fires when files are tracked, edited, accepted or rejected */
+    readonly onDidChange = this.changeEmitter.event;
+
+    private constructor() {
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(PendingChangesManager.baselineScheme, {
+                onDidChange: this.baselineEmitter.event,
+                provideTextDocumentContent: uri => this.files.get(uri.fsPath)?.baseline ?? ''
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this.files.has(event.document.uri.fsPath)) {
+                    this.changeEmitter.fire();
+                }
+            })
+        );
+    }
+
+    static getInstance(): PendingChangesManager {
+        if (!PendingChangesManager.instance) {
+            PendingChangesManager.instance = new PendingChangesManager();
+        }
+        return PendingChangesManager.instance;
+    }
+
+    /**
+     * Starts tracking a file before Cogent changes it. Later changes to a
+     * tracked file keep the baseline from before the first one.
+     */
+    async track(fullPath: string): Promise<void> {
+        if (this.files.has(fullPath)) {
+            return;
+        }
+
+        const document = findOpenDocument(fullPath);
+        let baseline = document?.getText();
+        let created = false;
+        if (baseline === undefined) {
+            try {
+                baseline = await fs.readFile(fullPath, 'utf-8');
+            } catch {
+                baseline = '';
+                created = true;
+            }
+        }
+        this.files.set(fullPath, { path: fullPath, baseline, baselineSaved: !document?.isDirty, created });
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Files with changes left to review. Files whose changes were undone by
+     * other means are dropped.
+     */
+    async list(): Promise<PendingFile[]> {
+        const pending: PendingFile[] = [];
+        for (const file of this.files.values()) {
+            const exists = await this.readCurrent(file.path) !== undefined;
+            if (file.created ? exists : (await this.getHunks(file.path)).length > 0) {
+                pending.push(file);
+            } else {
+                this.files.delete(file.path);
+            }
+        }
+        return pending.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    async getHunks(fullPath: string): Promise<LineHunk[]> {
+        const file = this.files.get(fullPath);
+        if (!file) {
+            return [];
+        }
+        const current = await this.readCurrent(fullPath);
+        return current === undefined ? [] : computeLineHunks(file.baseline.split('\n'), current.split('\n'));
+    }
+
+    getBaselineUri(fullPath: string): vscode.Uri {
+        return vscode.Uri.file(fullPath).with({ scheme: PendingChangesManager.baselineScheme });
+    }
+
+    async showDiff(fullPath: string, hunk?: LineHunk): Promise<void> {
+        const title = `${path.basename(fullPath)} (Cogent Changes)`;
+        await vscode.commands.executeCommand('vscode.diff', this.getBaselineUri(fullPath), vscode.Uri.file(fullPath), title, {
+            preview: true,
+            selection: hunk ? new vscode.Range(hunk.newStart, 0, hunk.newStart, 0) : undefined
+        });
+    }
+
+    /**
+     * Keeps a file's changes and saves it.
+     */
+    async acceptFile(fullPath: string): Promise<void> {
+        const document = findOpenDocument(fullPath);
+        if (document?.isDirty && !await document.save()) {
+            throw new Error(`Could not save ${vscode.workspace.asRelativePath(fullPath)}`);
+        }
+        this.forget(fullPath);
+    }
+
+    /**
+     * Restores a file to its content before Cogent changed it, deleting it
+     * if Cogent created it.
+     */
+    async rejectFile(fullPath: string): Promise<void> {
+        const file = this.files.get(fullPath);
+        if (!file) {
+            return;
+        }
+
+        if (file.created) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.deleteFile(vscode.Uri.file(fullPath), { ignoreIfNotExists: true });
+            await vscode.workspace.applyEdit(edit);
+        } else {
+            await this.writeCurrent(file, file.baseline);
+        }
+        this.forget(fullPath);
+    }
+
+    /**
+     * Keeps one hunk. The file is saved once no hunks are left to review.
+     */
+    async acceptHunk(fullPath: string, hunk: LineHunk): Promise<void> {
+        const file = this.files.get(fullPath);
+        if (!file) {
+            return;
+        }
+        await this.findHunk(fullPath, hunk);
+
+        const lines = file.baseline.split('\n');
+        lines.splice(hunk.oldStart, hunk.oldLines.length, ...hunk.newLines);
+        file.baseline = lines.join('\n');
+        this.baselineEmitter.fire(this.getBaselineUri(fullPath));
+
+        if ((await this.getHunks(fullPath)).length === 0) {
+            await this.acceptFile(fullPath);
+        } else {
+            this.changeEmitter.fire();
+        }
+    }
+
+    /**
+     * Undoes one hunk in the file, leaving the rest of Cogent's changes.
+     */
+    async rejectHunk(fullPath: string, hunk: LineHunk): Promise<void> {
+        const file = this.files.get(fullPath);
+        const current = await this.readCurrent(fullPath);
+        if (!file || current === undefined) {
+            return;
+        }
+        await this.findHunk(fullPath, hunk);
+
+        const lines = current.split('\n');
+        lines.splice(hunk.newStart, hunk.newLines.length, ...hunk.oldLines);
+        const restored = lines.join('\n');
+        if (restored === file.baseline) {
+            await this.rejectFile(fullPath);
+            return;
+        }
+        await this.writeCurrent(file, restored, false);
+        this.changeEmitter.fire();
+    }
+
+    async acceptAll(): Promise<number> {
+        const files = await this.list();
+        for (const file of files) {
+            await this.acceptFile(file.path);
+        }
+        return files.length;
+    }
+
+    async rejectAll(): Promise<number> {
+        const files = await this.list();
+        for (const file of files) {
+            await this.rejectFile(file.path);
+        }
+        return files.length;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.changeEmitter.dispose();
+        this.baselineEmitter.dispose();
+        this.files.clear();
+    }
+
+    private forget(fullPath: string): void {
+        this.files.delete(fullPath);
+        this.changeEmitter.fire();
+    }
+
+    private async findHunk(fullPath: string, hunk: LineHunk): Promise<void> {
+        if (!(await this.getHunks(fullPath)).some(current => sameHunk(current, hunk))) {
+            throw new Error('The file changed since this hunk was listed; review it again');
+        }
+    }
+
+    private async readCurrent(fullPath: string): Promise<string | undefined> {
+        const document = findOpenDocument(fullPath);
+        if (document) {
+            return document.getText();
+        }
+        try {
+            return await fs.readFile(fullPath, 'utf-8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Replaces a file's content through its editor, saving it when the
+     * content is back to a state that was saved.
+     */
+    private async writeCurrent(file: PendingFile, content: string, restoringBaseline = true): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file.path));
+            await replaceText(document, content);
+            if (restoringBaseline && file.baselineSaved) {
+                await document.save();
+            }
+        } catch (error) {
+            Logger.getInstance().error(`Failed to restore ${file.path}: ${error}`);
+            throw error;
+        }
+    }
+}
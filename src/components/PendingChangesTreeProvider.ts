@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PendingChangesManager } from './PendingChangesManager';
+import { LineHunk } from './diffUtils';
+
+export type PendingChange =
+    | { kind: 'file'; path: string; created: boolean }
+    | { kind: 'hunk'; path: string; hunk: LineHunk };
+
+function describeHunk(hunk: LineHunk): string {
+    const firstLine = hunk.newLines.find(line => line.trim()) ?? hunk.oldLines.find(line => line.trim()) ?? '';
+    return `+${hunk.newLines.length} −${hunk.oldLines.length}  ${firstLine.trim()}`;
+}
+
+/**
+ * Lists the files Cogent changed, and their hunks, in the "Cogent Changes" view.
+ */
+export class PendingChangesTreeProvider implements vscode.TreeDataProvider<PendingChange> {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly manager: PendingChangesManager) {
+        manager.onDidChange(() => this.changeEmitter.fire());
+    }
+
+    async getChildren(element?: PendingChange): Promise<PendingChange[]> {
+        if (!element) {
+            return (await this.manager.list()).map(file => ({ kind: 'file', path: file.path, created: file.created }));
+        }
+        if (element.kind === 'file' && !element.created) {
+            return (await this.manager.getHunks(element.path)).map(hunk => ({ kind: 'hunk', path: element.path, hunk }));
+        }
+        return [];
+    }
+
+    getTreeItem(change: PendingChange): vscode.TreeItem {
+        if (change.kind === 'file') {
+            const item = new vscode.TreeItem(
+                path.basename(change.path),
+                change.created ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Expanded
+            );
+            item.resourceUri = vscode.Uri.file(change.path);
+            item.description = `${vscode.workspace.asRelativePath(path.dirname(change.path))}${change.created ? ' · created' : ''}`;
+            item.contextValue = 'cogentChange.file';
+            item.command = change.created
+                ? { command: 'vscode.open', title: 'Open File', arguments: [vscode.Uri.file(change.path)] }
+                : { command: 'cogent.showChange', title: 'Show Changes', arguments: [change] };
+            return item;
+        }
+
+        const { hunk } = change;
+        const start = hunk.newStart + 1;
+        const end = hunk.newStart + Math.max(hunk.newLines.length, 1);
+        const item = new vscode.TreeItem(start === end ? `Line ${start}` : `Lines ${start}-${end}`, vscode.TreeItemCollapsibleState.None);
+        item.description = describeHunk(hunk);
+        item.tooltip = new vscode.MarkdownString().appendCodeblock(
+            [...hunk.oldLines.map(line => `- ${line}`), ...hunk.newLines.map(line => `+ ${line}`)].join('\n'),
+            'diff'
+        );
+        item.contextValue = 'cogentChange.hunk';
+        item.command = { command: 'cogent.showChange', title: 'Show Changes', arguments: [change] };
+        return item;
+    }
+}
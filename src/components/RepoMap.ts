@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { IndexedFile, WorkspaceIndex } from './WorkspaceIndex';
+import { PendingChangesManager } from './PendingChangesManager';
+import { PathResolver } from './PathResolver';
+
+// Larger files are usually generated or data, and slow to scan
+const MAX_OUTLINE_FILE_SIZE = 256 * 1024;
+// Only the files ranked highest by path are outlined, to bound the work on huge workspaces
+const MAX_OUTLINED_FILES = 3000;
+// Keeps one long class from filling the map
+const MAX_MEMBERS_PER_SYMBOL = 12;
+// Files modified within about this long count as recently edited
+const RECENT_EDIT_MS = 60 * 60 * 1000;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'when', 'then', 'than', 'what', 'where', 'which',
+    'should', 'would', 'could', 'please', 'make', 'add', 'use', 'file', 'files', 'code', 'function', 'class',
+    'fix', 'all', 'are', 'not', 'can', 'but', 'its', 'our', 'new', 'how', 'why', 'also', 'some', 'have', 'has'
+]);
+
+const MEMBER_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'constructor', 'super', 'await', 'new', 'typeof']);
+
+export interface OutlineSymbol {
+    kind: string;
+    name: string;
+    /** Public methods, for classes */
+    members: string[];
+}
+
+export interface RankingContext {
+    prompt: string;
+    /** Absolute paths attached to the request with # or drag and drop */
+    referencedPaths: string[];
+    /** Paths given to tools earlier in the turn, as the model wrote them */
+    toolPaths: string[];
+}
+
+export interface RepoMapEntry {
+    path: string;
+    /** The file's line and its outline, ready for the prompt */
+    text: string;
+    score: number;
+}
+
+interface LanguageRules {
+    /** Matches a top-level declaration; group 1 is the kind, group 2 the name */
+    topLevel: RegExp;
+    /** Matches a method inside a class; group 2 is the name */
+    member?: RegExp;
+    /** Whether a member name is private by convention */
+    isPrivate?: (name: string) => boolean;
+}
+
+const TYPESCRIPT: LanguageRules = {
+    topLevel: /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(class|interface|type|enum|function\*?|namespace|(?<=export\s+)(?:const|let|var))\s+([A-Za-z_$][\w$]*)/,
+    member: /^(\s+)(?:(?:public|protected|static|async|readonly|abstract|override|get|set)\s+)*([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\(/,
+    isPrivate: name => name.startsWith('#')
+};
+
+const LANGUAGES: Record<string, LanguageRules> = {
+    '.ts': TYPESCRIPT,
+    '.tsx': TYPESCRIPT,
+    '.mts': TYPESCRIPT,
+    '.cts': TYPESCRIPT,
+    '.js': TYPESCRIPT,
+    '.jsx': TYPESCRIPT,
+    '.mjs': TYPESCRIPT,
+    '.cjs': TYPESCRIPT,
+    '.py': {
+        topLevel: /^(class|def|async def)\s+(\w+)/,
+        member: /^(\s+)(?:async\s+)?def\s+(\w+)/,
+        isPrivate: name => name.startsWith('_')
+    },
+    '.go': { topLevel: /^(func|type)\s+(?:\([^)]*\)\s*)?(\w+)/ },
+    '.rs': { topLevel: /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(fn|struct|enum|trait|mod|type|impl(?:<[^>]*>)?)\s+([\w:]+)/ },
+    '.java': { topLevel: /^\s{0,4}(?:(?:public|protected|abstract|static|final|sealed)\s+)*(class|interface|enum|record)\s+(\w+)/ },
+    '.kt': { topLevel: /^(?:(?:public|internal|abstract|open|data|sealed|private)\s+)*(class|interface|object|fun)\s+(\w+)/ },
+    '.cs': { topLevel: /^\s{0,4}(?:(?:public|internal|abstract|static|sealed|partial)\s+)*(class|interface|enum|record|struct)\s+(\w+)/ },
+    '.rb': { topLevel: /^(class|module|def)\s+([\w:.]+)/ },
+    '.php': { topLevel: /^(?:(?:abstract|final)\s+)?(class|interface|trait|function|enum)\s+(\w+)/ },
+    '.swift': { topLevel: /^(?:(?:public|open|final)\s+)*(class|struct|enum|protocol|extension|func)\s+(\w+)/ }
+};
+
+/**
+ * Finds the top-level declarations of a source file with per-language
+ * patterns. Much cheaper than asking the language server for every file, at
+ * the cost of missing unusual declarations.
+ */
+export function extractOutline(filePath: string, content: string): OutlineSymbol[] {
+    const rules = LANGUAGES[path.extname(filePath).toLowerCase()];
+    if (!rules) {
+        return [];
+    }
+
+    const symbols: OutlineSymbol[] = [];
+    let openClass: { symbol: OutlineSymbol; indent?: string } | undefined;
+    for (const line of content.split(/\r?\n/)) {
+        const topLevel = rules.topLevel.exec(line);
+        if (topLevel) {
+            const symbol = { kind: topLevel[1].replace(/<.*$/, '').replace('async def', 'def'), name: topLevel[2], members: [] };
+            symbols.push(symbol);
+            openClass = symbol.kind === 'class' ? { symbol } : undefined;
+            continue;
+        }
+        if (!openClass || !rules.member || !line.trim()) {
+            continue;
+        }
+        if (!/^\s/.test(line)) {
+            // Back at the top level, e.g. the class's closing brace
+            openClass = /^[}\])]/.test(line) ? undefined : openClass;
+            continue;
+        }
+        const member = rules.member.exec(line);
+        if (!member) {
+            continue;
+        }
+        // Only the first indentation level inside the class holds its members
+        openClass.indent ??= member[1];
+        const name = member[2];
+        if (member[1] === openClass.indent && !MEMBER_KEYWORDS.has(name) && !/^\s+private\s/.test(line) &&
+            !rules.isPrivate?.(name) && !openClass.symbol.members.includes(name)) {
+            openClass.symbol.members.push(name);
+        }
+    }
+    return symbols;
+}
+
+function formatOutline(symbols: OutlineSymbol[]): string[] {
+    return symbols.map(symbol => {
+        const members = symbol.members.slice(0, MAX_MEMBERS_PER_SYMBOL);
+        const more = symbol.members.length > members.length ? `, +${symbol.members.length - members.length}` : '';
+        return `  ${symbol.kind} ${symbol.name}${members.length ? `: ${members.join(', ')}${more}` : ''}`;
+    });
+}
+
+function getTerms(text: string): string[] {
+    const terms = new Set<string>();
+    for (const word of text.match(/[A-Za-z_][\w-]{2,}/g) ?? []) {
+        // Split camelCase, snake_case and kebab-case so "WorkspaceIndex" also matches "index"
+        const parts = [word, ...word.split(/[_-]|(?<=[a-z])(?=[A-Z])/)];
+        for (const part of parts) {
+            const term = part.toLowerCase();
+            if (term.length >= 3 && !STOP_WORDS.has(term)) {
+                terms.add(term);
+            }
+        }
+    }
+    return [...terms];
+}
+
+/**
+ * Describes the workspace to the model as files with their top-level
+ * symbols, most relevant to the request first.
+ */
+export class RepoMap {
+    private static outlines = new Map<string, { size: number; mtimeMs: number; symbols: OutlineSymbol[] }>();
+
+    /**
+     * Ranks the indexed files for a request, from the paths it mentions, the
+     * files it references, files open in editors, recent edits and the words
+     * it shares with file names and symbols.
+     */
+    static async build(context: RankingContext): Promise<RepoMapEntry[]> {
+        const index = WorkspaceIndex.getInstance();
+        await index.whenReady();
+
+        const prompt = context.prompt.toLowerCase();
+        const terms = getTerms(context.prompt);
+        const referenced = new Set(context.referencedPaths.map(PathResolver.toDisplayPath));
+        const touched = new Set(context.toolPaths.map(PathResolver.toDisplayPath));
+        const edited = new Set((await PendingChangesManager.getInstance().list()).map(file => PathResolver.toDisplayPath(file.path)));
+        const visible = new Set(vscode.window.visibleTextEditors.map(editor => PathResolver.toDisplayPath(editor.document.uri.fsPath)));
+        const open = new Set(vscode.workspace.textDocuments
+            .filter(document => document.uri.scheme === 'file')
+            .map(document => PathResolver.toDisplayPath(document.uri.fsPath)));
+        const now = Date.now();
+
+        const scorePath = (file: IndexedFile): number => {
+            const basename = path.posix.basename(file.path).toLowerCase();
+            const stem = basename.replace(/\.[^.]+$/, '');
+            let score = 0;
+            if (referenced.has(file.path) || prompt.includes(file.path.toLowerCase())) {
+                score += 20;
+            } else if (stem.length >= 3 && prompt.includes(basename)) {
+                score += 12;
+            }
+            if (touched.has(file.path)) {
+                score += 10;
+            }
+            if (edited.has(file.path)) {
+                score += 8;
+            }
+            if (visible.has(file.path)) {
+                score += 6;
+            } else if (open.has(file.path)) {
+                score += 3;
+            }
+            const age = now - file.mtimeMs;
+            if (age >= 0 && age < RECENT_EDIT_MS * 24) {
+                score += 4 * Math.exp(-age / RECENT_EDIT_MS);
+            }
+            const segments = getTerms(file.path);
+            score += 2 * terms.filter(term => segments.includes(term)).length;
+            // Shallow files such as package manifests and entry points are a good default
+            return score + 1 / (1 + file.path.split('/').length);
+        };
+
+        const ranked = index.getFiles()
+            .map(file => ({ file, score: scorePath(file) }))
+            .sort((a, b) => b.score - a.score);
+
+        const entries: RepoMapEntry[] = [];
+        for (let i = 0; i < ranked.length; i++) {
+            const { file, score } = ranked[i];
+            const symbols = i < MAX_OUTLINED_FILES ? await RepoMap.getOutline(file) : [];
+            const symbolTerms = getTerms(symbols.flatMap(symbol => [symbol.name, ...symbol.members]).join(' '));
+            const symbolScore = Math.min(6, 1.5 * terms.filter(term => symbolTerms.includes(term)).length);
+            entries.push({
+                path: file.path,
+                text: [file.path, ...formatOutline(symbols)].join('\n'),
+                score: score + symbolScore
+            });
+        }
+        return entries.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+    }
+
+    private static async getOutline(file: IndexedFile): Promise<OutlineSymbol[]> {
+        if (file.size > MAX_OUTLINE_FILE_SIZE || !LANGUAGES[path.extname(file.path).toLowerCase()]) {
+            return [];
+        }
+        const cached = RepoMap.outlines.get(file.path);
+        if (cached && cached.size === file.size && cached.mtimeMs === file.mtimeMs) {
+            return cached.symbols;
+        }
+        try {
+            const symbols = extractOutline(file.path, await fs.readFile(file.fullPath, 'utf-8'));
+            RepoMap.outlines.set(file.path, { size: file.size, mtimeMs: file.mtimeMs, symbols });
+            return symbols;
+        } catch {
+            return [];
+        }
+    }
+}
+
+/**
+ * The file paths in tool call inputs, such as the files read or edited so far in a turn.
+ */
+export function collectToolPaths(toolCalls: vscode.LanguageModelToolCallPart[]): string[] {
+    const paths: string[] = [];
+    for (const { input } of toolCalls) {
+        const params = input as { path?: unknown; new_path?: unknown; paths?: unknown; files?: unknown };
+        const candidates = [
+            params.path,
+            params.new_path,
+            ...(Array.isArray(params.paths) ? params.paths : []),
+            ...(Array.isArray(params.files) ? params.files.map(file => (file as { path?: unknown })?.path) : [])
+        ];
+        paths.push(...candidates.filter((candidate): candidate is string => typeof candidate === 'string' && candidate.length > 0));
+    }
+    return paths;
+}
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './Logger';
+import { matchesAnyGlob } from './globMatch';
+import { PathResolver } from './PathResolver';
+import { WorkspaceIndex } from './WorkspaceIndex';
+
+const RULES_FILE = '.cogentrules';
+
+export interface RulesContext {
+    prompt: string;
+    /** Absolute paths attached to the request */
+    referencedPaths: string[];
+    /** Paths given to tools so far in the turn, as the model wrote them */
+    toolPaths: string[];
+}
+
+export interface ActiveRules {
+    /** Where the rules come from, e.g. "frontend/.cogentrules" */
+    source: string;
+    /** The rules file, shown as a reference; undefined for the global rules */
+    uri?: vscode.Uri;
+    /** When the rules apply, for the prompt, e.g. "files under frontend/ matching **\/*.test.ts" */
+    scope: string;
+    content: string;
+}
+
+interface RulesFile {
+    /** applies_to globs from the front matter, relative to the file's directory */
+    appliesTo: string[];
+    body: string;
+}
+
+function unquote(value: string): string {
+    return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Splits a rules file into its optional front matter and body. Only
+ * `applies_to` is read from the front matter, as one glob, an inline
+ * `[a, b]` list or a `- glob` list on the following lines.
+ */
+export function parseRulesFile(content: string): RulesFile {
+    const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(content);
+    if (!match) {
+        return { appliesTo: [], body: content.trim() };
+    }
+
+    const appliesTo: string[] = [];
+    let inList = false;
+    for (const line of match[1].split(/\r?\n/)) {
+        const field = /^applies_to\s*:\s*(.*)$/.exec(line);
+        if (field) {
+            const value = field[1].trim();
+            inList = !value;
+            if (value.startsWith('[')) {
+                appliesTo.push(...value.replace(/^\[|\]$/g, '').split(',').map(unquote).filter(Boolean));
+            } else if (value) {
+                appliesTo.push(unquote(value));
+            }
+        } else if (inList && /^\s*-\s+/.test(line)) {
+            appliesTo.push(unquote(line.replace(/^\s*-\s+/, '')));
+        } else if (line.trim()) {
+            inList = false;
+        }
+    }
+    return { appliesTo, body: content.slice(match[0].length).trim() };
+}
+
+/**
+ * Finds the custom rules that apply to a request: the global rules from
+ * settings, the `.cogentrules` at the root of each workspace folder, and
+ * `.cogentrules` files in subdirectories once the request or its tool calls
+ * touch files beneath them.
+ * Rules files can narrow where they apply with `applies_to` globs in front matter.
+ */
+export class RulesResolver {
+    static async resolve(context: RulesContext): Promise<ActiveRules[]> {
+        const rules: ActiveRules[] = [];
+        const globalRules = vscode.workspace.getConfiguration('cogent').get<string>('globalRules', '').trim();
+        if (globalRules) {
+            rules.push({ source: 'cogent.globalRules setting', scope: 'all requests', content: globalRules });
+        }
+
+        const index = WorkspaceIndex.getInstance();
+        await index.whenReady();
+
+        const touched = RulesResolver.getTouchedPaths(context);
+        const rulesFiles = index.getFiles()
+            .filter(indexed => path.posix.basename(indexed.path) === RULES_FILE)
+            // Deeper rules come later, so they win over more general ones
+            .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path));
+
+        for (const { path: rulesPath, relativePath, fullPath } of rulesFiles) {
+            const directory = path.posix.dirname(rulesPath) === '.' ? '' : path.posix.dirname(rulesPath);
+            const atFolderRoot = relativePath === RULES_FILE;
+            let file: RulesFile;
+            try {
+                file = parseRulesFile(await fs.readFile(fullPath, 'utf-8'));
+            } catch (error) {
+                Logger.getInstance().warn(`Failed to read ${fullPath}: ${error}`);
+                continue;
+            }
+            if (!file.body) {
+                continue;
+            }
+
+            const inDirectory = touched
+                .filter(filePath => !directory || filePath === directory || filePath.startsWith(`${directory}/`))
+                .map(filePath => directory ? filePath.slice(directory.length + 1) : filePath);
+            // A mention of the directory itself brings in its general rules, not ones for specific files
+            const applies = file.appliesTo.length
+                ? inDirectory.some(filePath => matchesAnyGlob(filePath, file.appliesTo))
+                : atFolderRoot || inDirectory.length > 0;
+            if (!applies) {
+                continue;
+            }
+
+            const location = directory ? `files under ${directory}/` : 'files';
+            rules.push({
+                source: rulesPath,
+                uri: vscode.Uri.file(fullPath),
+                scope: file.appliesTo.length
+                    ? `${location} matching ${file.appliesTo.join(', ')}`
+                    : !atFolderRoot ? location : directory ? `the ${directory} workspace folder` : 'the whole workspace',
+                content: file.body
+            });
+        }
+        return rules;
+    }
+
+    /**
+     * Workspace-relative paths the request attaches or mentions, and that its
+     * tool calls used.
+     */
+    private static getTouchedPaths(context: RulesContext): string[] {
+        // Path-like words in the prompt, such as "frontend/" or "frontend/src/App.tsx"
+        const mentioned = context.prompt.match(/[\w.@-]+\/(?:[\w.@-]+\/?)*/g) ?? [];
+        const paths = [...context.referencedPaths, ...context.toolPaths, ...mentioned]
+            .map(PathResolver.toDisplayPath)
+            .filter(relative => relative && relative !== '.' && !relative.startsWith('..') && !path.isAbsolute(relative));
+        return [...new Set(paths)];
+    }
+}
@@ -0,0 +1,281 @@
+import {
+    addLineNumbers,
+    BlockFailure,
+    BlockMatch,
+    DiffResult,
+    DiffStrategy,
+    everyLineHasLineNumbers,
+    findLineDifferences,
+    formatNearbyContent,
+    FuzzyMatch,
+    stripLineNumbers
+} from './diffUtils';
+import { LineMatcher } from './LineMatcher';
+
+interface DiffBlock {
+    searchLines: string[];
+    replaceLines: string[];
+}
+
+export class SearchReplaceDiffStrategy implements DiffStrategy {
+    private fuzzyThreshold: number;
+    private bufferLines: number;
+    private readonly BUFFER_LINES = 20;
+
+    constructor(fuzzyThreshold?: number, bufferLines?: number) {
+        this.fuzzyThreshold = fuzzyThreshold ?? 1.0;
+        this.bufferLines = bufferLines ?? this.BUFFER_LINES;
+    }
+
+    /**
+     * Applies every SEARCH/REPLACE block in the diff to the original content.
+     * All blocks are matched against the original content first, so either
+     * every block applies or nothing changes and each failing block is reported.
+     * Line hints are only used when the diff contains a single block.
+     */
+    applyDiff(originalContent: string, diffContent: string, startLine?: number, endLine?: number): DiffResult {
+        const blocks = this.parseBlocks(diffContent);
+        if (blocks.length === 0) {
+            return {
+                success: false,
+                error: 'Invalid diff format - missing required SEARCH/REPLACE sections'
+            };
+        }
+
+        const lineEnding = originalContent.includes('\r\n') ? '\r\n' : '\n';
+        const originalLines = originalContent.split(/\r?\n/);
+        const matcher = new LineMatcher(originalLines);
+        const useLineHints = blocks.length === 1;
+
+        const failures: BlockFailure[] = [];
+        const matches: { block: DiffBlock; index: number; matchIndex: number; similarity: number }[] = [];
+        blocks.forEach((block, index) => {
+            const match = this.findMatch(
+                originalLines,
+                matcher,
+                block,
+                useLineHints ? startLine : undefined,
+                useLineHints ? endLine : undefined
+            );
+            if (match.success) {
+                matches.push({ block, index, matchIndex: match.matchIndex, similarity: match.similarity });
+            } else {
+                failures.push({ block: index + 1, error: match.error, details: match.details });
+            }
+        });
+
+        // Blocks are applied independently, so their matched ranges must not overlap
+        const sortedMatches = [...matches].sort((a, b) => a.matchIndex - b.matchIndex);
+        for (let i = 1; i < sortedMatches.length; i++) {
+            const previous = sortedMatches[i - 1];
+            const current = sortedMatches[i];
+            const previousEnd = previous.matchIndex + Math.max(previous.block.searchLines.length, 1);
+            if (current.matchIndex < previousEnd) {
+                failures.push({
+                    block: current.index + 1,
+                    error: `Search content overlaps block ${previous.index + 1} (both match around line ${current.matchIndex + 1}). Combine them into a single block.`
+                });
+            }
+        }
+
+        if (failures.length > 0) {
+            return this.formatFailures(failures, blocks.length);
+        }
+
+        // Whitespace-insensitive matches score 1 too, so any match that isn't byte-identical is reported
+        const fuzzyMatches: FuzzyMatch[] = matches
+            .map(({ block, index, matchIndex, similarity }) => ({
+                block: index + 1,
+                similarity,
+                matchedRange: { start: matchIndex + 1, end: matchIndex + block.searchLines.length },
+                differences: findLineDifferences(
+                    block.searchLines,
+                    originalLines.slice(matchIndex, matchIndex + block.searchLines.length),
+                    matchIndex + 1
+                )
+            }))
+            .filter(match => match.differences.length > 0);
+
+        // Apply bottom-up so earlier matches keep their line indexes
+        let resultLines = originalLines;
+        for (const { block, matchIndex } of sortedMatches.reverse()) {
+            const matchedLines = originalLines.slice(matchIndex, matchIndex + block.searchLines.length);
+            resultLines = [
+                ...resultLines.slice(0, matchIndex),
+                ...this.reindentReplaceLines(block, matchedLines),
+                ...resultLines.slice(matchIndex + block.searchLines.length)
+            ];
+        }
+
+        return {
+            success: true,
+            content: resultLines.join(lineEnding),
+            fuzzyMatches: fuzzyMatches.length ? fuzzyMatches : undefined
+        };
+    }
+
+    private parseBlocks(diffContent: string): DiffBlock[] {
+        const blockRegex = /<<<<<<< SEARCH\r?\n([\s\S]*?)\r?\n?=======\r?\n([\s\S]*?)\r?\n?>>>>>>> REPLACE/g;
+        const blocks: DiffBlock[] = [];
+
+        for (const match of diffContent.matchAll(blockRegex)) {
+            let [_, searchContent, replaceContent] = match;
+
+            if (everyLineHasLineNumbers(searchContent) && everyLineHasLineNumbers(replaceContent)) {
+                searchContent = stripLineNumbers(searchContent);
+                replaceContent = stripLineNumbers(replaceContent);
+            }
+
+            blocks.push({
+                searchLines: searchContent === '' ? [] : searchContent.split(/\r?\n/),
+                replaceLines: replaceContent === '' ? [] : replaceContent.split(/\r?\n/)
+            });
+        }
+
+        return blocks;
+    }
+
+    private findMatch(originalLines: string[], matcher: LineMatcher, block: DiffBlock, startLine?: number, endLine?: number): BlockMatch {
+        const { searchLines } = block;
+
+        if (searchLines.length === 0 && !startLine) {
+            return {
+                success: false,
+                error: 'Empty search content requires start_line to be specified'
+            };
+        }
+
+        if (searchLines.length === 0 && startLine && endLine && startLine !== endLine) {
+            return {
+                success: false,
+                error: `Empty search content requires start_line and end_line to be the same (got ${startLine}-${endLine})`
+            };
+        }
+
+        let matchIndex = -1;
+        let bestMatchScore = 0;
+        let bestMatchContent = "";
+        const searchChunk = searchLines.join('\n');
+
+        let searchStartIndex = 0;
+        let searchEndIndex = originalLines.length;
+
+        if (startLine && endLine) {
+            const exactStartIndex = startLine - 1;
+            const exactEndIndex = endLine - 1;
+
+            if (exactStartIndex < 0 || exactEndIndex >= originalLines.length || exactStartIndex > exactEndIndex) {
+                return {
+                    success: false,
+                    error: `Line range ${startLine}-${endLine} is invalid (file has ${originalLines.length} lines)`
+                };
+            }
+
+            const similarity = matcher.scoreAt(searchLines, exactStartIndex);
+            
+            if (similarity >= this.fuzzyThreshold) {
+                matchIndex = exactStartIndex;
+                bestMatchScore = similarity;
+                bestMatchContent = originalLines.slice(exactStartIndex, exactStartIndex + searchLines.length).join('\n');
+            } else {
+                searchStartIndex = Math.max(0, startLine - (this.bufferLines + 1));
+                searchEndIndex = Math.min(originalLines.length, endLine + this.bufferLines);
+            }
+        }
+
+        // Search the whole range if the hinted lines didn't match
+        if (matchIndex === -1) {
+            const match = matcher.findBestMatch(searchLines, searchStartIndex, searchEndIndex);
+            matchIndex = match.index;
+            bestMatchScore = match.score;
+            bestMatchContent = match.index === -1
+                ? ''
+                : originalLines.slice(match.index, match.index + searchLines.length).join('\n');
+        }
+
+        if (matchIndex === -1 || bestMatchScore < this.fuzzyThreshold) {
+            const bestMatchSection = bestMatchContent
+                ? `\n\nBest Match Found:\n${addLineNumbers(bestMatchContent, matchIndex + 1)}`
+                : `\n\nBest Match Found:\n(no match)`;
+
+            const lineRange = startLine || endLine ?
+                ` at ${startLine ? `start: ${startLine}` : 'start'} to ${endLine ? `end: ${endLine}` : 'end'}` : '';
+
+            // Only show the content around the hinted lines or the best match, never the whole file
+            const originalContentSection = startLine && endLine
+                ? formatNearbyContent(originalLines, startLine - 1, endLine, this.bufferLines)
+                : matchIndex !== -1
+                    ? formatNearbyContent(originalLines, matchIndex, matchIndex + searchLines.length, this.bufferLines)
+                    : '\n\nUse cogent_readFile to get the exact content to search for.';
+                
+            return {
+                success: false,
+                error: `No sufficiently similar match found${lineRange} (${Math.floor(bestMatchScore * 100)}% similar, needs ${Math.floor(this.fuzzyThreshold * 100)}%)\n\nDebug Info:\n- Similarity Score: ${Math.floor(bestMatchScore * 100)}%\n- Required Threshold: ${Math.floor(this.fuzzyThreshold * 100)}%\n- Search Range: ${startLine && endLine ? `lines ${startLine}-${endLine}` : 'start to end'}\n\nSearch Content:\n${addLineNumbers(searchChunk)}${bestMatchSection}${originalContentSection}`,
+                details: {
+                    similarity: bestMatchScore,
+                    threshold: this.fuzzyThreshold,
+                    matchedRange: matchIndex === -1
+                        ? undefined
+                        : { start: matchIndex + 1, end: matchIndex + searchLines.length },
+                    searchContent: searchChunk,
+                    bestMatch: bestMatchContent || undefined
+                }
+            };
+        }
+
+        return { success: true, matchIndex, similarity: bestMatchScore };
+    }
+
+    private formatFailures(failures: BlockFailure[], blockCount: number): DiffResult {
+        failures.sort((a, b) => a.block - b.block);
+
+        if (blockCount === 1) {
+            const [failure] = failures;
+            return {
+                success: false,
+                error: failure.error,
+                details: failure.details,
+                failedBlocks: failures
+            };
+        }
+
+        const blockErrors = failures
+            .map(failure => `--- Block ${failure.block} of ${blockCount} ---\n${failure.error}`)
+            .join('\n\n');
+
+        return {
+            success: false,
+            error: `${failures.length} of ${blockCount} blocks failed, no changes were applied\n\n${blockErrors}`,
+            failedBlocks: failures
+        };
+    }
+
+    private reindentReplaceLines(block: DiffBlock, matchedLines: string[]): string[] {
+        const originalIndents = matchedLines.map(line => {
+            const match = line.match(/^[\t ]*/);
+            return match ? match[0] : '';
+        });
+
+        const searchIndents = block.searchLines.map(line => {
+            const match = line.match(/^[\t ]*/);
+            return match ? match[0] : '';
+        });
+
+        return block.replaceLines.map(line => {
+            const matchedIndent = originalIndents[0] || '';
+            const currentIndentMatch = line.match(/^[\t ]*/);
+            const currentIndent = currentIndentMatch ? currentIndentMatch[0] : '';
+            const searchBaseIndent = searchIndents[0] || '';
+            
+            const searchBaseLevel = searchBaseIndent.length;
+            const currentLevel = currentIndent.length;
+            const relativeLevel = currentLevel - searchBaseLevel;
+            
+            const finalIndent = relativeLevel < 0
+                ? matchedIndent.slice(0, Math.max(0, matchedIndent.length + relativeLevel))
+                : matchedIndent + currentIndent.slice(searchBaseLevel);
+            
+            return finalIndent + line.trim();
+        });
+    }
+}
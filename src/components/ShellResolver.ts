@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { Logger } from './Logger';
+
+export type ShellKind = 'posix' | 'fish' | 'powershell' | 'cmd';
+
+export interface ResolvedShell {
+    /** Executable path or name found on PATH */
+    path: string;
+    /** Executable name without extension, e.g. "bash" or "pwsh" */
+    name: string;
+    kind: ShellKind;
+    version?: string;
+    /** Where the shell came from, e.g. "cogent.shell" or "$SHELL" */
+    source: string;
+}
+
+export interface ShellInvocation {
+    file: string;
+    args: string[];
+    windowsVerbatimArguments?: boolean;
+}
+
+interface TerminalProfile {
+    path?: string | string[];
+    source?: string;
+}
+
+const VERSION_TIMEOUT_MS = 3000;
+
+function getPlatformKey(): 'windows' | 'osx' | 'linux' {
+    return process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'osx' : 'linux';
+}
+
+function getShellKind(name: string): ShellKind {
+    if (name === 'pwsh' || name === 'powershell') {
+        return 'powershell';
+    }
+    if (name === 'cmd') {
+        return 'cmd';
+    }
+    return name === 'fish' ? 'fish' : 'posix';
+}
+
+async function isExecutable(filePath: string): Promise<boolean> {
+    try {
+        const stat = await fs.stat(filePath);
+        return stat.isFile();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Finds an executable by absolute path or on PATH, trying PATHEXT
+ * extensions on Windows.
+ */
+async function findExecutable(command: string): Promise<string | undefined> {
+    if (path.isAbsolute(command)) {
+        return await isExecutable(command) ? command : undefined;
+    }
+    const extensions = process.platform === 'win32'
+        ? ['', ...(process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';')]
+        : [''];
+    for (const directory of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+        for (const extension of extensions) {
+            const candidate = path.join(directory, command + extension);
+            if (await isExecutable(candidate)) {
+                return candidate;
+            }
+        }
+    }
+    return undefined;
+}
+
+export class ShellResolver {
+    private static versions = new Map<string, Promise<string | undefined>>();
+
+    /**
+     * Resolves the shell used to run commands: the cogent.shell setting, then the
+     * terminal's default profile, then $SHELL, then the platform default.
+     * Candidates that can't be found are skipped.
+     */
+    static async resolve(): Promise<ResolvedShell> {
+        for (const candidate of ShellResolver.getCandidates()) {
+            const found = await findExecutable(candidate.path);
+            if (!found) {
+                Logger.getInstance().warn(`Shell ${candidate.path} from ${candidate.source} was not found`);
+                continue;
+            }
+            const name = path.basename(found).replace(/\.(exe|cmd|bat)$/i, '').toLowerCase();
+            const kind = getShellKind(name);
+            return { path: found, name, kind, version: await ShellResolver.getVersion(found, kind), source: candidate.source };
+        }
+
+        const fallback = process.platform === 'win32' ? 'powershell.exe' : '/bin/sh';
+        const name = path.basename(fallback).replace(/\.exe$/i, '');
+        return { path: fallback, name, kind: getShellKind(name), source: 'platform default' };
+    }
+
+    static getInvocation(shell: ResolvedShell, command: string): ShellInvocation {
+        switch (shell.kind) {
+            case 'powershell':
+                return { file: shell.path, args: ['-NoLogo', '-NoProfile', '-NonInteractive', '-Command', command] };
+            case 'cmd':
+                // cmd.exe parses its own command line, so pass it through unquoted
+                return { file: shell.path, args: ['/d', '/s', '/c', `"${command}"`], windowsVerbatimArguments: true };
+            default:
+                return { file: shell.path, args: ['-c', command] };
+        }
+    }
+
+    /**
+     * Display name for the system prompt, e.g. "bash 5.2.21" or "PowerShell 7.4.1".
+     */
+    static describe(shell: ResolvedShell): string {
+        const name = shell.kind === 'powershell'
+            ? (shell.name === 'pwsh' ? 'PowerShell (pwsh)' : 'Windows PowerShell')
+            : shell.name;
+        return shell.version ? `${name} ${shell.version}` : name;
+    }
+
+    private static getCandidates(): { path: string; source: string }[] {
+        const candidates: { path: string; source: string }[] = [];
+
+        const configured = vscode.workspace.getConfiguration('cogent').get<string>('shell', '').trim();
+        if (configured) {
+            candidates.push({ path: configured, source: 'cogent.shell' });
+        }
+
+        const platform = getPlatformKey();
+        const terminalConfig = vscode.workspace.getConfiguration('terminal.integrated');
+        const profileName = terminalConfig.get<string>(`defaultProfile.${platform}`);
+        const profile = profileName
+            ? terminalConfig.get<Record<string, TerminalProfile | null>>(`profiles.${platform}`)?.[profileName]
+            : undefined;
+        if (profile) {
+            const paths = Array.isArray(profile.path) ? profile.path : profile.path ? [profile.path] : [];
+            if (profile.source === 'PowerShell') {
+                paths.push('pwsh', 'powershell');
+            }
+            for (const profilePath of paths) {
+                candidates.push({ path: profilePath, source: `terminal profile "${profileName}"` });
+            }
+        }
+
+        if (process.platform !== 'win32' && process.env.SHELL) {
+            candidates.push({ path: process.env.SHELL, source: '$SHELL' });
+        }
+        if (vscode.env.shell) {
+            candidates.push({ path: vscode.env.shell, source: 'VS Code default shell' });
+        }
+
+        return candidates;
+    }
+
+    private static getVersion(shellPath: string, kind: ShellKind): Promise<string | undefined> {
+        let version = ShellResolver.versions.get(shellPath);
+        if (!version) {
+            version = ShellResolver.queryVersion(shellPath, kind);
+            ShellResolver.versions.set(shellPath, version);
+        }
+        return version;
+    }
+
+    private static queryVersion(shellPath: string, kind: ShellKind): Promise<string | undefined> {
+        const args = kind === 'powershell'
+            ? ['-NoLogo', '-NoProfile', '-NonInteractive', '-Command', '$PSVersionTable.PSVersion.ToString()']
+            : kind === 'cmd'
+                ? ['/d', '/c', 'ver']
+                : ['--version'];
+        return new Promise(resolve => {
+            execFile(shellPath, args, { timeout: VERSION_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+                // Shells without --version, like dash, have no version to report
+                const match = stdout?.match(/\d+(?:\.\d+)+/);
+                if (error && !match) {
+                    Logger.getInstance().debug(`Could not determine version of ${shellPath}: ${error.message}`);
+                }
+                resolve(match?.[0]);
+            });
+        });
+    }
+}
@@ -0,0 +1,330 @@
+import {
+    addLineNumbers,
+    BlockFailure,
+    BlockMatch,
+    DiffResult,
+    DiffStrategy,
+    findLineDifferences,
+    formatNearbyContent,
+    FuzzyMatch
+} from './diffUtils';
+import { LineMatcher } from './LineMatcher';
+
+interface HunkLine {
+    type: ' ' | '-' | '+';
+    text: string;
+}
+
+interface Hunk {
+    header: string;
+    oldStart: number;
+    lines: HunkLine[];
+}
+
+export interface UnifiedFileDiff {
+    path: string;
+    diff: string;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function stripPathPrefix(headerPath: string): string {
+    const filePath = headerPath.split('\t')[0].trim();
+    return filePath.replace(/^[ab]\//, '');
+}
+
+function isFileHeader(lines: string[], index: number): boolean {
+    return lines[index].startsWith('--- ') && !!lines[index + 1]?.startsWith('+++ ');
+}
+
+/**
+ * Reads the hunk whose header is at lines[start]. The line counts in the
+ * header decide where its body ends, so removed or added lines that look like
+ * "--- " / "+++ " file headers (SQL comments, "++i") stay in the hunk. Models
+ * often get the counts wrong, so lines past them still belong to the hunk
+ * until a file header, another hunk or a line that can't be part of one.
+ * @returns The hunk and the index of the first line after it
+ */
+function readHunk(lines: string[], start: number): { hunk: Hunk; end: number } {
+    const header = HUNK_HEADER.exec(lines[start])!;
+    const hunk: Hunk = { header: header[0], oldStart: parseInt(header[1], 10), lines: [] };
+    let oldLeft = parseInt(header[2] ?? '1', 10);
+    let newLeft = parseInt(header[4] ?? '1', 10);
+
+    let i = start + 1;
+    for (; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.startsWith('\\')) {
+            // "\ No newline at end of file"
+            continue;
+        }
+        if (oldLeft <= 0 && newLeft <= 0 && (HUNK_HEADER.test(line) || isFileHeader(lines, i))) {
+            break;
+        }
+        // Models frequently drop the leading space of blank context lines
+        const type = line === '' ? ' ' : line[0];
+        if (type !== ' ' && type !== '-' && type !== '+') {
+            break;
+        }
+        hunk.lines.push({ type, text: line.slice(1) });
+        if (type !== '+') {
+            oldLeft--;
+        }
+        if (type !== '-') {
+            newLeft--;
+        }
+    }
+    return { hunk, end: i };
+}
+
+export class UnifiedDiffStrategy implements DiffStrategy {
+    private fuzzyThreshold: number;
+    private bufferLines: number;
+    private readonly BUFFER_LINES = 20;
+
+    constructor(fuzzyThreshold?: number, bufferLines?: number) {
+        this.fuzzyThreshold = fuzzyThreshold ?? 1.0;
+        this.bufferLines = bufferLines ?? this.BUFFER_LINES;
+    }
+
+    static isUnifiedDiff(diffContent: string): boolean {
+        return !diffContent.includes('<<<<<<< SEARCH') && /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/m.test(diffContent);
+    }
+
+    /**
+     * Splits a git-style patch into one diff per file using its --- / +++ headers.
+     * Returns an empty array when the patch has no file headers.
+     */
+    static splitFiles(patch: string): UnifiedFileDiff[] {
+        const lines = patch.split(/\r?\n/);
+        const files: UnifiedFileDiff[] = [];
+        let current: { path: string; lines: string[] } | undefined;
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            if (HUNK_HEADER.test(line)) {
+                // Only the lines between hunks can be file headers
+                const { end } = readHunk(lines, i);
+                current?.lines.push(...lines.slice(i, end));
+                i = end - 1;
+                continue;
+            }
+            if (isFileHeader(lines, i)) {
+                if (current) {
+                    files.push({ path: current.path, diff: current.lines.join('\n') });
+                }
+                const oldPath = stripPathPrefix(line.slice(4));
+                const newPath = stripPathPrefix(lines[i + 1].slice(4));
+                current = { path: newPath === '/dev/null' ? oldPath : newPath, lines: [line, lines[i + 1]] };
+                i++;
+                continue;
+            }
+            current?.lines.push(line);
+        }
+
+        if (current) {
+            files.push({ path: current.path, diff: current.lines.join('\n') });
+        }
+        return files;
+    }
+
+    /**
+     * Applies every hunk in the diff to the original content. Hunks are located
+     * near their @@ line numbers, tolerating offsets and whitespace differences.
+     * Either every hunk applies or nothing changes and each failing hunk is reported.
+     */
+    applyDiff(originalContent: string, diffContent: string, _startLine?: number, _endLine?: number): DiffResult {
+        const fileHeaders = UnifiedDiffStrategy.splitFiles(diffContent).map(file => file.diff.split('\n', 2));
+        if (fileHeaders.some(([, newHeader]) => /^\+\+\+ \/dev\/null/.test(newHeader))) {
+            return { success: false, error: 'Deleting files is not supported by unified diffs' };
+        }
+        if (fileHeaders.some(([oldHeader]) => /^--- \/dev\/null/.test(oldHeader))) {
+            return { success: false, error: 'Creating files is not supported by unified diffs, use cogent_writeFile instead' };
+        }
+
+        const hunks = this.parseHunks(diffContent);
+        if (hunks.length === 0) {
+            return {
+                success: false,
+                error: 'Invalid diff format - missing required @@ -start,count +start,count @@ hunk headers'
+            };
+        }
+
+        const lineEnding = originalContent.includes('\r\n') ? '\r\n' : '\n';
+        const originalLines = originalContent.split(/\r?\n/);
+        const matcher = new LineMatcher(originalLines);
+
+        const failures: BlockFailure[] = [];
+        const matches: { hunk: Hunk; index: number; matchIndex: number; oldLength: number; similarity: number }[] = [];
+        hunks.forEach((hunk, index) => {
+            const match = this.findMatch(originalLines, matcher, hunk);
+            if (match.success) {
+                const oldLength = hunk.lines.filter(line => line.type !== '+').length;
+                matches.push({ hunk, index, matchIndex: match.matchIndex, oldLength, similarity: match.similarity });
+            } else {
+                failures.push({ block: index + 1, error: `${hunk.header}\n${match.error}`, details: match.details });
+            }
+        });
+
+        // Hunks are applied independently, so their matched ranges must not overlap
+        const sortedMatches = [...matches].sort((a, b) => a.matchIndex - b.matchIndex);
+        for (let i = 1; i < sortedMatches.length; i++) {
+            const previous = sortedMatches[i - 1];
+            const current = sortedMatches[i];
+            if (current.matchIndex < previous.matchIndex + Math.max(previous.oldLength, 1)) {
+                failures.push({
+                    block: current.index + 1,
+                    error: `${current.hunk.header}\nHunk overlaps hunk ${previous.index + 1} (both match around line ${current.matchIndex + 1}). Combine them into a single hunk.`
+                });
+            }
+        }
+
+        if (failures.length > 0) {
+            return this.formatFailures(failures, hunks.length);
+        }
+
+        // Whitespace-insensitive matches score 1 too, so any match that isn't byte-identical is reported
+        const fuzzyMatches: FuzzyMatch[] = matches
+            .map(({ hunk, index, matchIndex, oldLength, similarity }) => ({
+                block: index + 1,
+                similarity,
+                matchedRange: { start: matchIndex + 1, end: matchIndex + oldLength },
+                differences: findLineDifferences(
+                    hunk.lines.filter(line => line.type !== '+').map(line => line.text),
+                    originalLines.slice(matchIndex, matchIndex + oldLength),
+                    matchIndex + 1
+                )
+            }))
+            .filter(match => match.differences.length > 0);
+
+        // Apply bottom-up so earlier matches keep their line indexes
+        let resultLines = originalLines;
+        for (const { hunk, matchIndex, oldLength } of sortedMatches.reverse()) {
+            const matchedLines = originalLines.slice(matchIndex, matchIndex + oldLength);
+            resultLines = [
+                ...resultLines.slice(0, matchIndex),
+                ...this.buildNewLines(hunk, matchedLines),
+                ...resultLines.slice(matchIndex + oldLength)
+            ];
+        }
+
+        return {
+            success: true,
+            content: resultLines.join(lineEnding),
+            fuzzyMatches: fuzzyMatches.length ? fuzzyMatches : undefined
+        };
+    }
+
+    private parseHunks(diffContent: string): Hunk[] {
+        const lines = diffContent.split(/\r?\n/);
+        const hunks: Hunk[] = [];
+
+        // Anything between hunks, such as file headers, is skipped
+        for (let i = 0; i < lines.length; i++) {
+            if (HUNK_HEADER.test(lines[i])) {
+                const { hunk, end } = readHunk(lines, i);
+                hunks.push(hunk);
+                i = end - 1;
+            }
+        }
+
+        // Trailing blank lines are artifacts of the patch text, not context
+        for (const hunk of hunks) {
+            while (hunk.lines.length && hunk.lines[hunk.lines.length - 1].type === ' ' && hunk.lines[hunk.lines.length - 1].text === '') {
+                hunk.lines.pop();
+            }
+        }
+
+        return hunks.filter(hunk => hunk.lines.length > 0);
+    }
+
+    private findMatch(originalLines: string[], matcher: LineMatcher, hunk: Hunk): BlockMatch {
+        const oldLines = hunk.lines.filter(line => line.type !== '+').map(line => line.text);
+
+        if (oldLines.length === 0) {
+            // Pure insertion: "@@ -5,0 +6,2 @@" inserts after line 5
+            const insertIndex = hunk.oldStart;
+            if (insertIndex < 0 || insertIndex > originalLines.length) {
+                return {
+                    success: false,
+                    error: `Insertion point ${hunk.oldStart} is invalid (file has ${originalLines.length} lines)`
+                };
+            }
+            return { success: true, matchIndex: insertIndex, similarity: 1 };
+        }
+
+        const hintIndex = Math.min(Math.max(hunk.oldStart - 1, 0), originalLines.length - 1);
+        const searchChunk = oldLines.join('\n');
+
+        // Exact matches nearest to the hinted line win, then whitespace-insensitive and fuzzy ones
+        const { index: matchIndex, score: bestMatchScore } = matcher.findBestMatch(oldLines, 0, originalLines.length, hintIndex);
+        if (matchIndex !== -1 && bestMatchScore >= this.fuzzyThreshold) {
+            return { success: true, matchIndex, similarity: bestMatchScore };
+        }
+        const bestMatchContent = matchIndex === -1
+            ? ''
+            : originalLines.slice(matchIndex, matchIndex + oldLines.length).join('\n');
+
+        const bestMatchSection = bestMatchContent
+            ? `\n\nBest Match Found:\n${addLineNumbers(bestMatchContent, matchIndex + 1)}`
+            : `\n\nBest Match Found:\n(no match)`;
+
+        return {
+            success: false,
+            error: `No sufficiently similar match found near line ${hunk.oldStart} (${Math.floor(bestMatchScore * 100)}% similar, needs ${Math.floor(this.fuzzyThreshold * 100)}%)\n\nDebug Info:\n- Similarity Score: ${Math.floor(bestMatchScore * 100)}%\n- Required Threshold: ${Math.floor(this.fuzzyThreshold * 100)}%\n\nExpected Content (context and removed lines):\n${addLineNumbers(searchChunk, hunk.oldStart)}${bestMatchSection}${formatNearbyContent(originalLines, hintIndex, hintIndex + oldLines.length, this.bufferLines)}`,
+            details: {
+                similarity: bestMatchScore,
+                threshold: this.fuzzyThreshold,
+                matchedRange: matchIndex === -1
+                    ? undefined
+                    : { start: matchIndex + 1, end: matchIndex + oldLines.length },
+                searchContent: searchChunk,
+                bestMatch: bestMatchContent || undefined
+            }
+        };
+    }
+
+    private formatFailures(failures: BlockFailure[], hunkCount: number): DiffResult {
+        failures.sort((a, b) => a.block - b.block);
+
+        if (hunkCount === 1) {
+            const [failure] = failures;
+            return {
+                success: false,
+                error: failure.error,
+                details: failure.details,
+                failedBlocks: failures
+            };
+        }
+
+        const hunkErrors = failures
+            .map(failure => `--- Hunk ${failure.block} of ${hunkCount} ---\n${failure.error}`)
+            .join('\n\n');
+
+        return {
+            success: false,
+            error: `${failures.length} of ${hunkCount} hunks failed, no changes were applied\n\n${hunkErrors}`,
+            failedBlocks: failures
+        };
+    }
+
+    /**
+     * Context lines keep the file's own text so that whitespace-tolerant
+     * matches don't rewrite lines the hunk didn't intend to change.
+     */
+    private buildNewLines(hunk: Hunk, matchedLines: string[]): string[] {
+        const newLines: string[] = [];
+        let oldIndex = 0;
+        for (const line of hunk.lines) {
+            if (line.type === '+') {
+                newLines.push(line.text);
+            } else {
+                if (line.type === ' ') {
+                    newLines.push(matchedLines[oldIndex]);
+                }
+                oldIndex++;
+            }
+        }
+        return newLines;
+    }
+}
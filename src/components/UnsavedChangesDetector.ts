@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PathResolver } from './PathResolver';
 
 export interface UnsavedChangesResult {
     hasChanges: boolean;
@@ -8,25 +10,34 @@ export interface UnsavedChangesResult {
     error?: string;
 }
 
+/**
+ * The URI of an absolute path, or of a path relative to the workspace that
+ * starts with the folder's name in a multi-root workspace.
+ */
+function toFileUri(filePath: string): vscode.Uri | undefined {
+    if (path.isAbsolute(filePath)) {
+        return vscode.Uri.file(filePath);
+    }
+    const named = PathResolver.getNamedFolder(filePath);
+    return named && vscode.Uri.joinPath(named.folder.uri, named.relativePath);
+}
+
 export class UnsavedChangesDetector {
     /**
      * Checks for unsaved changes in a file by comparing disk content with editor content
-     * @param filePath Relative path to the file from workspace root
+     * @param filePath Absolute path, or path relative to the workspace
      * @returns UnsavedChangesResult containing change status and content details
      */
     static async detectChanges(filePath: string): Promise<UnsavedChangesResult> {
         try {
-            // Get the workspace URI
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            // Create URI for the file
+            const fileUri = toFileUri(filePath);
+            if (!fileUri) {
                 return { 
                     hasChanges: false, 
-                    error: 'No workspace folder found' 
+                    error: `No workspace folder found for ${filePath}` 
                 };
             }
-
-            // Create URI for the file
-            const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
             
             // Try to find the document in open editors
             const document = vscode.workspace.textDocuments.find(
@@ -67,16 +78,15 @@ export class UnsavedChangesDetector {
      */
     static async getAllUnsavedChanges(): Promise<string[]> {
         const unsavedFiles: string[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         
-        if (!workspaceFolder) {
+        if (!vscode.workspace.workspaceFolders?.length) {
             return unsavedFiles;
         }
 
         // Check all open text documents
         for (const document of vscode.workspace.textDocuments) {
             if (document.isDirty) {
-                // Get relative path from workspace root
+                // Get relative path from the workspace, with the folder's name in a multi-root workspace
                 const relativePath = vscode.workspace.asRelativePath(document.uri);
                 unsavedFiles.push(relativePath);
             }
@@ -87,7 +97,7 @@ export class UnsavedChangesDetector {
 
     /**
      * Watches for changes in a specific file
-     * @param filePath Relative path to the file from workspace root
+     * @param filePath Absolute path, or path relative to the workspace
      * @param onChange Callback function when changes are detected
      * @returns Disposable to stop watching
      */
@@ -97,14 +107,11 @@ export class UnsavedChangesDetector {
     ): vscode.Disposable {
         const disposables: vscode.Disposable[] = [];
 
-        // Get the workspace URI
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        const fileUri = toFileUri(filePath);
+        if (!fileUri) {
             return new vscode.Disposable(() => {});
         }
 
-        const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, filePath);
-
         // Watch for document changes
         const changeDisposable = vscode.workspace.onDidChangeTextDocument(async e => {
             if (e.document.uri.fsPath === fileUri.fsPath) {
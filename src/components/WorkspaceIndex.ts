@@ -0,0 +1,403 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './Logger';
+import { IGNORE_FILES, IgnoreMatcher } from './ignoreRules';
+import { PathResolver } from './PathResolver';
+
+// Files past this count are left out so huge workspaces don't exhaust memory
+const MAX_INDEXED_FILES = 50_000;
+// Files larger than this are listed but not hashed or read into the prompt
+const MAX_CONTENT_SIZE = 1024 * 1024;
+// File system events are handled in batches after this much quiet
+const EVENT_DEBOUNCE_MS = 300;
+
+export interface IndexedFile {
+    /** Path as shown to the model: relative to the workspace folder, prefixed with the folder's name in a multi-root workspace */
+    path: string;
+    /** Path relative to the workspace folder, with forward slashes */
+    relativePath: string;
+    fullPath: string;
+    size: number;
+    mtimeMs: number;
+    /** SHA-1 of the content, once computed; files over 1 MB aren't hashed */
+    hash?: string;
+}
+
+/**
+ * The indexed files and the ignore rules they were listed with. A rebuild fills
+ * a fresh one and swaps it in when done, so readers never see a partial index.
+ */
+interface IndexState {
+    files: Map<string, IndexedFile>;
+    /** Ignore rules by workspace folder and directory */
+    matchers: Map<string, Promise<IgnoreMatcher>>;
+    truncated: boolean;
+}
+
+function createState(): IndexState {
+    return { files: new Map(), matchers: new Map(), truncated: false };
+}
+
+function formatSize(size: number): string {
+    if (size < 1024) {
+        return `${size} B`;
+    }
+    return size < 1024 * 1024 ? `${(size / 1024).toFixed(1)} KB` : `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Lists the files of every workspace folder, skipping ignored paths, with
+ * their sizes and hashes. Built in the background at activation and kept up
+ * to date with file system watchers, so prompts get the file tree without
+ * walking the disk.
+ */
+export class WorkspaceIndex {
+    private static instance: WorkspaceIndex;
+
+    private folders: readonly vscode.WorkspaceFolder[] = [];
+    private state = createState();
+    private contents = new Map<string, { hash: string; content: string }>();
+    private tree?: string;
+    private building: Promise<void> = Promise.resolve();
+    private initialized = false;
+
+    private pendingPaths = new Set<string>();
+    private eventTimer?: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+    private watchers: vscode.Disposable[] = [];
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fires after files are added, changed or removed */
+    readonly onDidChange = this.changeEmitter.event;
+
+    private constructor() {}
+
+    static getInstance(): WorkspaceIndex {
+        if (!WorkspaceIndex.instance) {
+            WorkspaceIndex.instance = new WorkspaceIndex();
+        }
+        return WorkspaceIndex.instance;
+    }
+
+    /**
+     * Starts indexing the workspace folders and watching them for changes.
+     */
+    initialize(): void {
+        if (this.initialized) {
+            return;
+        }
+        this.initialized = true;
+        this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.watchFolders()));
+        this.watchFolders();
+    }
+
+    /**
+     * Resolves once the index is complete and includes the file changes seen
+     * so far, starting it if needed.
+     */
+    async whenReady(): Promise<void> {
+        this.initialize();
+        this.flush();
+        // Applying changes can queue a rebuild, so wait until nothing new is chained
+        let building: Promise<void>;
+        do {
+            building = this.building;
+            await building;
+        } while (building !== this.building);
+    }
+
+    getFolders(): readonly vscode.WorkspaceFolder[] {
+        return this.folders;
+    }
+
+    /**
+     * Indexed files sorted by path.
+     */
+    getFiles(): IndexedFile[] {
+        return [...this.state.files.values()].sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    getFile(relativePath: string): IndexedFile | undefined {
+        return this.state.files.get(relativePath);
+    }
+
+    /**
+     * The file tree as indented names with file sizes, cached until the next change.
+     */
+    getTree(): string {
+        if (this.tree === undefined) {
+            const lines: string[] = [];
+            let previous: string[] = [];
+            for (const file of this.getFiles()) {
+                const parts = file.path.split('/');
+                let common = 0;
+                while (common < parts.length - 1 && common < previous.length - 1 && parts[common] === previous[common]) {
+                    common++;
+                }
+                for (let level = common; level < parts.length - 1; level++) {
+                    lines.push(`${'  '.repeat(level)}${parts[level]}/`);
+                }
+                lines.push(`${'  '.repeat(parts.length - 1)}${parts[parts.length - 1]} (${formatSize(file.size)})`);
+                previous = parts;
+            }
+            if (this.state.truncated) {
+                lines.push(`... only the first ${MAX_INDEXED_FILES} files are listed`);
+            }
+            this.tree = lines.join('\n') + '\n';
+        }
+        return this.tree;
+    }
+
+    /**
+     * Contents of the indexed files under 1 MB, read once and then reused
+     * until the file changes. Files matching cogent.deniedPaths are left out.
+     */
+    async getContents(): Promise<Record<string, string>> {
+        const result: Record<string, string> = {};
+        for (const file of this.getFiles()) {
+            if (PathResolver.getDeniedPattern(file.relativePath)) {
+                continue;
+            }
+            if (file.size > MAX_CONTENT_SIZE) {
+                result[file.path] = `File too large (${Math.round(file.size / 1024 / 1024)}MB), skipped`;
+                continue;
+            }
+            try {
+                await this.ensureHash(file);
+                const cached = this.contents.get(file.path);
+                if (cached && cached.hash === file.hash) {
+                    result[file.path] = cached.content;
+                    continue;
+                }
+                const content = await fs.readFile(file.fullPath, 'utf-8');
+                this.contents.set(file.path, { hash: file.hash!, content });
+                result[file.path] = content;
+            } catch (error) {
+                result[file.path] = `Error reading file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            }
+        }
+        return result;
+    }
+
+    dispose(): void {
+        clearTimeout(this.eventTimer);
+        [...this.watchers, ...this.disposables].forEach(disposable => disposable.dispose());
+        this.watchers = [];
+        this.disposables = [];
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Watches the current workspace folders and indexes them from scratch,
+     * since adding or removing a folder changes how every path is shown.
+     */
+    private watchFolders(): void {
+        this.watchers.forEach(disposable => disposable.dispose());
+        this.watchers = [];
+        this.folders = [...vscode.workspace.workspaceFolders ?? []];
+
+        const queue = (uri: vscode.Uri) => this.queue(uri.fsPath);
+        for (const folder of this.folders) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '**/*'));
+            this.watchers.push(watcher, watcher.onDidCreate(queue), watcher.onDidChange(queue), watcher.onDidDelete(queue));
+        }
+        this.rebuild();
+    }
+
+    private rebuild(): void {
+        this.building = this.building.then(async () => {
+            const start = Date.now();
+            const state = createState();
+            for (const folder of this.folders) {
+                await this.walk(state, folder, '');
+            }
+            this.state = state;
+            for (const cachedPath of [...this.contents.keys()]) {
+                if (!state.files.has(cachedPath)) {
+                    this.contents.delete(cachedPath);
+                }
+            }
+            this.invalidate();
+            Logger.getInstance().info(`Indexed ${state.files.size} workspace files in ${Date.now() - start}ms`);
+            void this.hashAll();
+        }).catch(error => Logger.getInstance().error(`Failed to index workspace: ${error}`));
+    }
+
+    /**
+     * Adds the files under a directory that aren't ignored.
+     * @param relativeDir Directory relative to the workspace folder, '' for its root
+     */
+    private async walk(state: IndexState, folder: vscode.WorkspaceFolder, relativeDir: string): Promise<void> {
+        const matcher = await this.getMatcher(state, folder, relativeDir);
+        let entries: import('fs').Dirent[];
+        try {
+            entries = await fs.readdir(path.join(folder.uri.fsPath, relativeDir), { withFileTypes: true });
+        } catch (error) {
+            Logger.getInstance().warn(`Failed to read directory ${path.join(folder.uri.fsPath, relativeDir)}: ${error}`);
+            return;
+        }
+
+        for (const entry of entries) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (matcher.isIgnored(relativePath, entry.isDirectory())) {
+                continue;
+            }
+            if (entry.isDirectory()) {
+                await this.walk(state, folder, relativePath);
+            } else if (entry.isFile()) {
+                await this.addFile(state, folder, relativePath);
+            }
+        }
+    }
+
+    private async addFile(state: IndexState, folder: vscode.WorkspaceFolder, relativePath: string): Promise<void> {
+        const displayPath = PathResolver.formatPath(folder, relativePath);
+        if (!state.files.has(displayPath) && state.files.size >= MAX_INDEXED_FILES) {
+            state.truncated = true;
+            return;
+        }
+        const fullPath = path.join(folder.uri.fsPath, relativePath);
+        try {
+            const stat = await fs.stat(fullPath);
+            // A rebuild keeps the hashes of files that haven't changed since the last one
+            const existing = state.files.get(displayPath) ?? this.state.files.get(displayPath);
+            const unchanged = existing && existing.size === stat.size && existing.mtimeMs === stat.mtimeMs;
+            state.files.set(displayPath, {
+                path: displayPath,
+                relativePath,
+                fullPath,
+                size: stat.size,
+                mtimeMs: stat.mtimeMs,
+                hash: unchanged ? existing.hash : undefined
+            });
+        } catch {
+            state.files.delete(displayPath);
+        }
+    }
+
+    /**
+     * The ignore rules for a directory's entries, including every ignore file
+     * from the folder's root down to it.
+     */
+    private getMatcher(state: IndexState, folder: vscode.WorkspaceFolder, relativeDir: string): Promise<IgnoreMatcher> {
+        const key = `${folder.uri.fsPath}\0${relativeDir}`;
+        let matcher = state.matchers.get(key);
+        if (!matcher) {
+            matcher = relativeDir
+                ? this.getMatcher(state, folder, path.posix.dirname(relativeDir) === '.' ? '' : path.posix.dirname(relativeDir))
+                    .then(parent => parent.forDirectory(relativeDir))
+                : IgnoreMatcher.forWorkspace(folder.uri.fsPath);
+            state.matchers.set(key, matcher);
+        }
+        return matcher;
+    }
+
+    /**
+     * Whether a path would be indexed: neither it nor any of its parent
+     * directories is ignored.
+     */
+    private async isIndexed(folder: vscode.WorkspaceFolder, relativePath: string, isDirectory: boolean): Promise<boolean> {
+        const parts = relativePath.split('/');
+        for (let i = 1; i <= parts.length; i++) {
+            const entryPath = parts.slice(0, i).join('/');
+            const matcher = await this.getMatcher(this.state, folder, parts.slice(0, i - 1).join('/'));
+            if (matcher.isIgnored(entryPath, i < parts.length || isDirectory)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private queue(fullPath: string): void {
+        this.pendingPaths.add(fullPath);
+        clearTimeout(this.eventTimer);
+        this.eventTimer = setTimeout(() => this.flush(), EVENT_DEBOUNCE_MS);
+    }
+
+    private flush(): void {
+        clearTimeout(this.eventTimer);
+        if (!this.pendingPaths.size) {
+            return;
+        }
+        const paths = [...this.pendingPaths];
+        this.pendingPaths.clear();
+        this.building = this.building
+            .then(() => this.applyChanges(paths))
+            .catch(error => Logger.getInstance().error(`Failed to update workspace index: ${error}`));
+    }
+
+    private async applyChanges(fullPaths: string[]): Promise<void> {
+        const changes = fullPaths.flatMap(fullPath => {
+            // The innermost folder wins when workspace folders are nested
+            const folder = [...this.folders]
+                .sort((a, b) => b.uri.fsPath.length - a.uri.fsPath.length)
+                .find(candidate => !path.relative(candidate.uri.fsPath, fullPath).startsWith('..'));
+            const relativePath = folder && path.relative(folder.uri.fsPath, fullPath).split(path.sep).join('/');
+            return folder && relativePath && !path.isAbsolute(relativePath) ? [{ folder, relativePath, fullPath }] : [];
+        });
+
+        // Ignore files change what every path below them means, so start over
+        if (changes.some(({ relativePath }) => IGNORE_FILES.includes(path.posix.basename(relativePath)) || relativePath === '.git/info/exclude')) {
+            this.rebuild();
+            return;
+        }
+
+        let changed = false;
+        for (const { folder, relativePath, fullPath } of changes) {
+            let isDirectory: boolean | undefined;
+            try {
+                isDirectory = (await fs.stat(fullPath)).isDirectory();
+            } catch {
+                // Deleted, along with anything inside it
+            }
+
+            if (isDirectory === undefined) {
+                for (const indexed of [...this.state.files.values()]) {
+                    if (indexed.fullPath === fullPath || indexed.fullPath.startsWith(`${fullPath}${path.sep}`)) {
+                        this.state.files.delete(indexed.path);
+                        this.contents.delete(indexed.path);
+                        changed = true;
+                    }
+                }
+            } else if (await this.isIndexed(folder, relativePath, isDirectory)) {
+                if (isDirectory) {
+                    await this.walk(this.state, folder, relativePath);
+                } else {
+                    await this.addFile(this.state, folder, relativePath);
+                }
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.invalidate();
+            void this.hashAll();
+        }
+    }
+
+    private invalidate(): void {
+        this.tree = undefined;
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Hashes files in the background, one at a time so the extension host stays responsive.
+     */
+    private async hashAll(): Promise<void> {
+        for (const file of [...this.state.files.values()]) {
+            if (!file.hash && file.size <= MAX_CONTENT_SIZE && this.state.files.get(file.path) === file) {
+                await this.ensureHash(file).catch(() => undefined);
+            }
+        }
+    }
+
+    private async ensureHash(file: IndexedFile): Promise<void> {
+        if (file.hash || file.size > MAX_CONTENT_SIZE) {
+            return;
+        }
+        const content = await fs.readFile(file.fullPath);
+        file.hash = crypto.createHash('sha1').update(content).digest('hex');
+    }
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { PathResolver } from './PathResolver';
+
+export interface NavigationLocation {
+    uri: vscode.Uri;
+    range: vscode.Range;
+}
+
+export interface SymbolTarget {
+    document: vscode.TextDocument;
+    position: vscode.Position;
+}
+
+/**
+ * Opens a workspace file so its language server can answer queries about it.
+ */
+export async function openWorkspaceDocument(inputPath: string): Promise<vscode.TextDocument> {
+    const { fullPath } = await PathResolver.resolve(inputPath);
+    return vscode.workspace.openTextDocument(vscode.Uri.file(fullPath));
+}
+
+/**
+ * Finds the position of a symbol on a 1-based line. Models know the line and
+ * the name they're looking at, but rarely the exact column.
+ */
+export async function resolveSymbolTarget(inputPath: string, line: number, symbol: string): Promise<SymbolTarget> {
+    const document = await openWorkspaceDocument(inputPath);
+    if (!Number.isInteger(line) || line < 1 || line > document.lineCount) {
+        throw new Error(`Line ${line} is outside ${inputPath}, which has ${document.lineCount} lines`);
+    }
+
+    const text = document.lineAt(line - 1).text;
+    const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(text) ?? new RegExp(escaped).exec(text);
+    if (!match) {
+        throw new Error(`"${symbol}" does not appear on line ${line} of ${inputPath}: ${text.trim()}`);
+    }
+    return { document, position: new vscode.Position(line - 1, match.index) };
+}
+
+export function toNavigationLocation(location: vscode.Location | vscode.LocationLink): NavigationLocation {
+    return 'targetUri' in location
+        ? { uri: location.targetUri, range: location.targetRange }
+        : { uri: location.uri, range: location.range };
+}
+
+/**
+ * Path as the model should pass it back to other tools: relative for
+ * workspace files, absolute (and marked) for anything else.
+ */
+export function describePath(uri: vscode.Uri): string {
+    // Includes the folder's name in a multi-root workspace, as PathResolver expects
+    const relativePath = vscode.workspace.asRelativePath(uri);
+    return relativePath === uri.fsPath ? `${uri.fsPath} (outside workspace)` : relativePath;
+}
+
+export function isDeniedLocation(uri: vscode.Uri): boolean {
+    const relativePath = vscode.workspace.asRelativePath(uri, false);
+    return relativePath !== uri.fsPath && !!PathResolver.getDeniedPattern(relativePath);
+}
+
+export function formatRange(range: vscode.Range): string {
+    const start = range.start.line + 1;
+    const end = range.end.line + 1;
+    return start === end ? `line ${start}` : `lines ${start}-${end}`;
+}
+
+export function symbolKindName(kind: vscode.SymbolKind): string {
+    return vscode.SymbolKind[kind]?.toLowerCase() ?? 'symbol';
+}
+
+/**
+ * Formats locations grouped by file, with the first line of each location's
+ * text so the model can tell them apart without reading the file.
+ */
+export async function formatLocations(locations: NavigationLocation[]): Promise<string> {
+    const byFile = new Map<string, NavigationLocation[]>();
+    for (const location of locations) {
+        const key = location.uri.toString();
+        byFile.set(key, [...(byFile.get(key) ?? []), location]);
+    }
+
+    const sections: string[] = [];
+    for (const fileLocations of byFile.values()) {
+        const uri = fileLocations[0].uri;
+        let document: vscode.TextDocument | undefined;
+        try {
+            document = await vscode.workspace.openTextDocument(uri);
+        } catch {
+            // Virtual or deleted documents are listed without snippets
+        }
+
+        fileLocations.sort((a, b) => a.range.start.compareTo(b.range.start));
+        const lines = fileLocations.map(location => {
+            const snippet = document && location.range.start.line < document.lineCount
+                ? `: ${document.lineAt(location.range.start.line).text.trim()}`
+                : '';
+            return `  ${formatRange(location.range)}${snippet}`;
+        });
+        sections.push(`📝 ${describePath(uri)}\n${lines.join('\n')}`);
+    }
+    return sections.join('\n\n');
+}
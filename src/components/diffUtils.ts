@@ -0,0 +1,177 @@
+// Types
+export interface DiffErrorDetails {
+    similarity?: number;
+    threshold?: number;
+    matchedRange?: { start: number; end: number };
+    searchContent?: string;
+    bestMatch?: string;
+}
+
+export interface BlockFailure {
+    block: number;
+    error: string;
+    details?: DiffErrorDetails;
+}
+
+export interface LineDifference {
+    line: number;
+    expected: string;
+    actual: string;
+}
+
+export interface FuzzyMatch {
+    block: number;
+    similarity: number;
+    matchedRange: { start: number; end: number };
+    differences: LineDifference[];
+}
+
+export type DiffResult = 
+  | { success: true; content: string; fuzzyMatches?: FuzzyMatch[] }
+  | { success: false; error: string; details?: DiffErrorDetails; failedBlocks?: BlockFailure[] };
+
+export type BlockMatch =
+  | { success: true; matchIndex: number; similarity: number }
+  | { success: false; error: string; details?: DiffErrorDetails };
+
+export interface DiffStrategy {
+    applyDiff(originalContent: string, diffContent: string, startLine?: number, endLine?: number): DiffResult;
+}
+
+// Helper functions
+export function addLineNumbers(content: string, startLine: number = 1): string {
+    const lines = content.split('\n');
+    const maxLineNumberWidth = String(startLine + lines.length - 1).length;
+    return lines
+        .map((line, index) => {
+            const lineNumber = String(startLine + index).padStart(maxLineNumberWidth, ' ');
+            return `${lineNumber} | ${line}`;
+        })
+        .join('\n');
+}
+
+export function everyLineHasLineNumbers(content: string): boolean {
+    const lines = content.split(/\r?\n/);
+    return lines.length > 0 && lines.every(line => /^\s*\d+\s+\|(?!\|)/.test(line));
+}
+
+export function stripLineNumbers(content: string): string {
+    const lines = content.split(/\r?\n/);
+    const processedLines = lines.map(line => {
+        const match = line.match(/^\s*\d+\s+\|(?!\|)\s?(.*)$/);
+        return match ? match[1] : line;
+    });
+    const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+    return processedLines.join(lineEnding);
+}
+
+/**
+ * Lists the lines of a fuzzy match that differ from what the diff expected.
+ * @param startLine 1-based line number of the first actual line
+ */
+export function findLineDifferences(expectedLines: string[], actualLines: string[], startLine: number): LineDifference[] {
+    const differences: LineDifference[] = [];
+    expectedLines.forEach((expected, i) => {
+        const actual = actualLines[i] ?? '';
+        if (expected !== actual) {
+            differences.push({ line: startLine + i, expected, actual });
+        }
+    });
+    return differences;
+}
+
+/**
+ * Original content around a range of lines, with line numbers.
+ * @param start 0-based index of the first line of the range
+ * @param end 0-based index after the last line of the range
+ */
+export function formatNearbyContent(lines: string[], start: number, end: number, bufferLines: number): string {
+    const from = Math.max(0, start - bufferLines);
+    const to = Math.min(lines.length, end + bufferLines);
+    return `\n\nOriginal Content:\n${addLineNumbers(lines.slice(from, to).join('\n'), from + 1)}`;
+}
+
+export function formatFuzzyMatches(fuzzyMatches: FuzzyMatch[]): string {
+    return fuzzyMatches
+        .map(match => {
+            const differences = match.differences
+                .map(difference => `  - line ${difference.line}: expected \`${difference.expected}\`, found \`${difference.actual}\``)
+                .join('\n');
+            const similarity = match.similarity < 1 ? `${Math.floor(match.similarity * 100)}% similarity` : 'identical except for whitespace';
+            return `- Block ${match.block} matched lines ${match.matchedRange.start}-${match.matchedRange.end} at ${similarity}. Lines that differed:\n${differences}`;
+        })
+        .join('\n');
+}
+
+export interface LineHunk {
+    /** 0-based index of the first changed line in the old lines */
+    oldStart: number;
+    oldLines: string[];
+    /** 0-based index of the first changed line in the new lines */
+    newStart: number;
+    newLines: string[];
+}
+
+// Past this many cells the changed middle of a file is reported as one hunk rather than diffed line by line
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Groups the differences between two versions of a file into hunks of
+ * adjacent changed lines, using the longest common subsequence of lines.
+ */
+export function computeLineHunks(oldLines: string[], newLines: string[]): LineHunk[] {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    if (oldMiddle.length === 0 && newMiddle.length === 0) {
+        return [];
+    }
+    if (oldMiddle.length === 0 || newMiddle.length === 0 || oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+        return [{ oldStart: prefix, oldLines: oldMiddle, newStart: prefix, newLines: newMiddle }];
+    }
+
+    // lengths[i * width + j] is the LCS length of oldMiddle[i..] and newMiddle[j..]
+    const width = newMiddle.length + 1;
+    const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+        for (let j = newMiddle.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const hunks: LineHunk[] = [];
+    let current: LineHunk | undefined;
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+        if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+            current = undefined;
+            i++;
+            j++;
+            continue;
+        }
+        if (!current) {
+            current = { oldStart: prefix + i, oldLines: [], newStart: prefix + j, newLines: [] };
+            hunks.push(current);
+        }
+        if (j < newMiddle.length && (i === oldMiddle.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+            current.newLines.push(newMiddle[j++]);
+        } else {
+            current.oldLines.push(oldMiddle[i++]);
+        }
+    }
+    return hunks;
+}
@@ -0,0 +1,50 @@
+/**
+ * Converts a glob to a regular expression matched against workspace-relative
+ * paths. Patterns without a slash match a file or directory name at any depth.
+ * Supports `*`, `**`, `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // "**/" matches zero or more directories, a trailing "**" everything below
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    source += ')'.repeat(braceDepth);
+
+    return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}(?:/.*)?$`);
+}
+
+/**
+ * Whether a workspace-relative path matches any of the globs.
+ */
+export function matchesAnyGlob(relativePath: string, globs: string[]): boolean {
+    return globs.some(glob => globToRegExp(glob).test(relativePath));
+}
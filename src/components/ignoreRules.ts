@@ -0,0 +1,314 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './Logger';
+
+export interface IgnoreRule {
+    pattern: string;
+    regex: RegExp;
+    negated: boolean;
+    /** Pattern ended with a slash, so it only matches directories */
+    directoryOnly: boolean;
+    /** Workspace-relative directory of the file the rule came from, '' for the root */
+    base: string;
+}
+
+/** Files read in every directory, in increasing order of precedence */
+export const IGNORE_FILES = ['.gitignore', '.cogentignore'];
+
+/** The ignore file that keeps paths away from Cogent's file tools, not just out of listings */
+export const AGENT_IGNORE_FILE = '.cogentignore';
+
+/**
+ * Paths Cogent skips unless a workspace ignore file re-includes them with `!pattern`.
+ */
+export const DEFAULT_IGNORED_PATTERNS = [
+    // Build and distribution
+    'dist',
+    'build',
+    'out',
+    'target',
+    'bin',
+    'lib',
+    '.next',
+    'public',
+    
+    // Dependencies
+    'node_modules',
+    'package-lock.json',
+    'bower_components',
+    'vendor',
+    'packages',
+    
+    // Environment and virtual environments
+    '.venv',
+    'venv',
+    'env',
+    '.env',
+    'virtualenv',
+    
+    // Version control
+    '.git',
+    '.svn',
+    '.hg',
+    
+    // IDE and editor files
+    '.idea',
+    '.vscode',
+    '.vs',
+    '.sublime-workspace',
+    
+    // Cache and temp files
+    '.cache',
+    'tmp',
+    'temp',
+    '__pycache__',
+    
+    // System files
+    '.DS_Store',
+    '*.db',
+    
+    // Test and coverage
+    'coverage',
+    '.nyc_output',
+    '.pytest_cache',
+    
+    // Logs
+    'logs',
+    '*.log',
+    'npm-debug.log*',
+    'yarn-debug.log*',
+    'yarn-error.log*',
+
+    // Images and media
+    'assets',
+    '*.jpg',
+    '*.jpeg',
+    '*.png',
+    '*.gif',
+    '*.webp',
+    '*.mov',
+    '*.flv',
+    '*.wmv',
+    '*.swf',
+    '*.fla',
+    '*.svg',
+    '*.ico',
+    '*.webm',
+    '*.woff'
+];
+
+/**
+ * Converts a gitignore glob to a regular expression body: `*` and `?` stay
+ * within a path segment, `**` spans segments, and `[...]` is a character class.
+ */
+function globToRegExpSource(glob: string): string {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '\\' && i + 1 < glob.length) {
+            source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        } else if (char === '*') {
+            if (glob[i + 1] !== '*') {
+                source += '[^/]*';
+                continue;
+            }
+            const atStart = i === 0 || glob[i - 1] === '/';
+            const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+            i++;
+            if (atStart && i + 1 === glob.length) {
+                // Trailing "/**" matches everything inside
+                source += '.*';
+            } else if (atStart && atEnd) {
+                // Leading "**/" or inner "/**/" match zero or more directories
+                source += '(?:.*/)?';
+                i++;
+            } else {
+                // Other runs of asterisks are ordinary asterisks
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 2);
+            if (end === -1) {
+                source += '\\[';
+                continue;
+            }
+            let body = glob.slice(i + 1, end);
+            const negated = body.startsWith('!') || body.startsWith('^');
+            if (negated) {
+                body = body.slice(1);
+            }
+            body = body.replace(/[\\\]^]/g, '\\$&');
+            source += negated ? `(?!/)[^${body}]` : `[${body}]`;
+            i = end;
+        } else {
+            source += char.replace(/[.+^${}()|\]\\/]/g, '\\$&');
+        }
+    }
+    return source;
+}
+
+/**
+ * Parses ignore file content with gitignore semantics.
+ * @param base Workspace-relative directory the file's patterns are relative to
+ */
+export function parseIgnorePatterns(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine;
+        // Trailing spaces are dropped unless escaped with a backslash
+        while (line.endsWith(' ') && !line.endsWith('\\ ')) {
+            line = line.slice(0, -1);
+        }
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        let negated = false;
+        if (line.startsWith('!')) {
+            negated = true;
+            line = line.slice(1);
+        } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+            line = line.slice(1);
+        }
+
+        const directoryOnly = line.endsWith('/') && !line.endsWith('\\/');
+        if (directoryOnly) {
+            line = line.replace(/\/+$/, '');
+        }
+        // A slash anywhere but the end anchors the pattern to its file's directory
+        const anchored = line.includes('/');
+        line = line.replace(/^\/+/, '');
+        if (!line) {
+            continue;
+        }
+
+        const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegExpSource(line)}$`);
+        rules.push({ pattern: rawLine.trim(), regex, negated, directoryOnly, base });
+    }
+    return rules;
+}
+
+async function readIgnoreFile(filePath: string): Promise<string | undefined> {
+    try {
+        return await fs.readFile(filePath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Decides which workspace paths are ignored, following gitignore rules:
+ * later rules win, rules in deeper directories win over shallower ones,
+ * and `!pattern` re-includes a path. `.cogentignore` files use the same
+ * syntax and take precedence over `.gitignore` in the same directory.
+ */
+export class IgnoreMatcher {
+    private constructor(
+        private readonly root: string,
+        private readonly rules: IgnoreRule[],
+        private readonly fileNames: string[] = IGNORE_FILES
+    ) {}
+
+    /**
+     * Rules for a workspace folder: the given defaults, then `.git/info/exclude`,
+     * then the ignore files at the root.
+     * @param defaultPatterns Patterns with gitignore syntax that the workspace's files can override
+     */
+    static async forWorkspace(root: string, defaultPatterns: string[] = DEFAULT_IGNORED_PATTERNS): Promise<IgnoreMatcher> {
+        const rules = parseIgnorePatterns(defaultPatterns.join('\n'), '');
+        const exclude = await readIgnoreFile(path.join(root, '.git', 'info', 'exclude'));
+        if (exclude) {
+            rules.push(...parseIgnorePatterns(exclude, ''));
+        }
+        return new IgnoreMatcher(root, rules).withFilesIn('');
+    }
+
+    /**
+     * Rules from the `.cogentignore` files alone, without git's rules or the defaults.
+     */
+    static forAgent(root: string): Promise<IgnoreMatcher> {
+        return new IgnoreMatcher(root, [], [AGENT_IGNORE_FILE]).withFilesIn('');
+    }
+
+    /**
+     * Rules for the contents of a directory, adding its own ignore files.
+     * @param relativeDir Workspace-relative directory with forward slashes; '' for the root
+     */
+    forDirectory(relativeDir: string): Promise<IgnoreMatcher> {
+        return relativeDir ? this.withFilesIn(relativeDir) : Promise.resolve(this);
+    }
+
+    isIgnored(relativePath: string, isDirectory: boolean): boolean {
+        return !!this.getIgnoringRule(relativePath, isDirectory);
+    }
+
+    /**
+     * The rule that ignores a path, if it is ignored.
+     */
+    getIgnoringRule(relativePath: string, isDirectory: boolean): IgnoreRule | undefined {
+        for (let i = this.rules.length - 1; i >= 0; i--) {
+            const rule = this.rules[i];
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+            if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+                continue;
+            }
+            if (rule.regex.test(rule.base ? relativePath.slice(rule.base.length + 1) : relativePath)) {
+                return rule.negated ? undefined : rule;
+            }
+        }
+        return undefined;
+    }
+
+    private async withFilesIn(relativeDir: string): Promise<IgnoreMatcher> {
+        const added: IgnoreRule[] = [];
+        for (const fileName of this.fileNames) {
+            const filePath = path.join(this.root, relativeDir, fileName);
+            const content = await readIgnoreFile(filePath);
+            if (content !== undefined) {
+                const rules = parseIgnorePatterns(content, relativeDir);
+                Logger.getInstance().debug(`Loaded ${rules.length} ignore patterns from ${filePath}`);
+                added.push(...rules);
+            }
+        }
+        return added.length ? new IgnoreMatcher(this.root, [...this.rules, ...added], this.fileNames) : this;
+    }
+}
+
+/**
+ * Finds the `.cogentignore` rule that hides a path from Cogent: the path
+ * itself or one of its parent directories matches, since an ignored directory
+ * hides everything in it.
+ * @param relativePaths Workspace-relative paths with forward slashes; ones
+ *   ending with a slash or containing other paths in the list are directories
+ */
+export async function findAgentIgnoredPath(root: string, relativePaths: string[]): Promise<{ path: string; rule: IgnoreRule } | undefined> {
+    const directories = new Set(relativePaths.flatMap(relativePath =>
+        relativePath.split('/').slice(0, -1).map((_, i, parts) => parts.slice(0, i + 1).join('/')).filter(Boolean)));
+    const matchers = new Map<string, Promise<IgnoreMatcher>>([['', IgnoreMatcher.forAgent(root)]]);
+    const getMatcher = (relativeDir: string): Promise<IgnoreMatcher> => {
+        let matcher = matchers.get(relativeDir);
+        if (!matcher) {
+            const parent = relativeDir.includes('/') ? relativeDir.slice(0, relativeDir.lastIndexOf('/')) : '';
+            matcher = getMatcher(parent).then(parentMatcher => parentMatcher.forDirectory(relativeDir));
+            matchers.set(relativeDir, matcher);
+        }
+        return matcher;
+    };
+
+    for (const relativePath of relativePaths) {
+        const parts = relativePath.split('/').filter(Boolean);
+        for (let i = 1; i <= parts.length; i++) {
+            const entryPath = parts.slice(0, i).join('/');
+            const matcher = await getMatcher(parts.slice(0, i - 1).join('/'));
+            const rule = matcher.getIgnoringRule(entryPath, i < parts.length || directories.has(entryPath));
+            if (rule) {
+                return { path: entryPath, rule };
+            }
+        }
+    }
+    return undefined;
+}
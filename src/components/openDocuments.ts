@@ -0,0 +1,17 @@
+import * as vscode from 'vscode';
+
+/**
+ * The open document for a file on disk, if any editor has it loaded.
+ */
+export function findOpenDocument(fullPath: string): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(document => document.uri.scheme === 'file' && document.uri.fsPath === fullPath);
+}
+
+/**
+ * Replaces the whole text of an open document, leaving it unsaved.
+ */
+export async function replaceText(document: vscode.TextDocument, text: string): Promise<void> {
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), text);
+    await vscode.workspace.applyEdit(edit);
+}
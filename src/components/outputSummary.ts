@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+
+// Used when the caller gives no token budget
+const DEFAULT_TOKEN_BUDGET = 8000;
+// Token counts are estimated at this many characters per token before checking
+const CHARS_PER_TOKEN = 3;
+const MAX_LINE_CHARS = 500;
+const MAX_FIT_ATTEMPTS = 4;
+// Share of a truncated stream's budget for error-like lines, then for the head of what is left
+const ERROR_SHARE = 0.3;
+const HEAD_SHARE = 0.4;
+
+const ERROR_PATTERN = /\b(error|errors|failed|failure|failing|fatal|exception|panic|traceback|assertion|segmentation fault|not found|cannot|unable to)\b|ERR!|✗|✖/i;
+
+interface OutputLine {
+    text: string;
+    /** 1-based line numbers in the original output covered by this line */
+    lineNumber: number;
+    endLine: number;
+}
+
+function clipLine(line: string): string {
+    return line.length > MAX_LINE_CHARS
+        ? `${line.slice(0, MAX_LINE_CHARS)}… [+${line.length - MAX_LINE_CHARS} chars]`
+        : line;
+}
+
+/**
+ * Collapses runs of identical lines, and of lines that only differ in their
+ * numbers (progress counters, timestamps), into the first line of the run and
+ * a marker.
+ */
+function collapseRepeats(lines: string[]): OutputLine[] {
+    const result: OutputLine[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const key = lines[i].replace(/\d+/g, '#');
+        let end = i + 1;
+        while (end < lines.length && lines[end].replace(/\d+/g, '#') === key) {
+            end++;
+        }
+        result.push({ text: clipLine(lines[i]), lineNumber: i + 1, endLine: i + 1 });
+        const repeats = end - i - 1;
+        if (repeats === 1) {
+            result.push({ text: clipLine(lines[i + 1]), lineNumber: i + 2, endLine: i + 2 });
+        } else if (repeats > 1) {
+            const identical = lines.slice(i + 1, end).every(line => line === lines[i]);
+            result.push({
+                text: identical ? `[... repeated ${repeats} more times]` : `[... ${repeats} similar lines]`,
+                lineNumber: i + 2,
+                endLine: end
+            });
+        }
+        i = end;
+    }
+    return result;
+}
+
+function takeWithin(lines: OutputLine[], maxChars: number, fromEnd: boolean): OutputLine[] {
+    const taken: OutputLine[] = [];
+    let used = 0;
+    for (let k = 0; k < lines.length; k++) {
+        const line = lines[fromEnd ? lines.length - 1 - k : k];
+        used += line.text.length + 1;
+        if (used > maxChars) {
+            break;
+        }
+        taken.push(line);
+    }
+    return fromEnd ? taken.reverse() : taken;
+}
+
+/**
+ * Shrinks command output to roughly maxChars: repeated lines are collapsed,
+ * error-like lines are listed first with their line numbers, and as much of
+ * the head and tail as fits is kept around an omission marker.
+ */
+export function summarizeOutput(output: string, maxChars: number): string {
+    const lines = output.replace(/\n$/, '').split('\n');
+    const collapsed = collapseRepeats(lines);
+    const collapsedText = collapsed.map(line => line.text).join('\n');
+    if (collapsedText.length <= maxChars) {
+        return collapsedText;
+    }
+
+    const sections: string[] = [];
+    let remaining = maxChars;
+
+    const errorLines = takeWithin(collapsed.filter(line => ERROR_PATTERN.test(line.text)), maxChars * ERROR_SHARE, false);
+    if (errorLines.length) {
+        const text = errorLines.map(line => `L${line.lineNumber}: ${line.text}`).join('\n');
+        sections.push(`[Error-like lines]\n${text}`);
+        remaining -= text.length;
+    }
+
+    const head = takeWithin(collapsed, Math.max(0, remaining * HEAD_SHARE), false);
+    remaining -= head.reduce((total, line) => total + line.text.length + 1, 0);
+    const tail = takeWithin(collapsed.slice(head.length), Math.max(0, remaining), true);
+
+    const lastShown = head.length ? head[head.length - 1].endLine : 0;
+    const firstTail = tail.length ? tail[0].lineNumber : lines.length + 1;
+    const omitted = firstTail - lastShown - 1;
+
+    sections.push([
+        `[Output: ${lines.length} lines]`,
+        ...head.map(line => line.text),
+        ...(omitted > 0 ? [`[... ${omitted} lines omitted (lines ${lastShown + 1}-${firstTail - 1}) ...]`] : []),
+        ...tail.map(line => line.text)
+    ].join('\n'));
+
+    return sections.join('\n\n');
+}
+
+async function countTokens(text: string, tokenization?: vscode.LanguageModelToolTokenizationOptions): Promise<number> {
+    return tokenization ? tokenization.countTokens(text) : Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Renders a tool result whose output streams may be too large for the token
+ * budget. Streams are summarized, sharing the budget evenly, until the
+ * rendered text fits, and onTruncate is called once so the full output can be
+ * saved; its return value is passed to render as a note about where to find it.
+ * @param render Formats the (possibly summarized) streams into the result text
+ */
+export async function fitToTokenBudget<T extends string>(
+    streams: Record<T, string>,
+    render: (streams: Record<T, string>, note?: string) => string,
+    tokenization: vscode.LanguageModelToolTokenizationOptions | undefined,
+    onTruncate: () => Promise<string | undefined>
+): Promise<string> {
+    const budget = tokenization?.tokenBudget || DEFAULT_TOKEN_BUDGET;
+    const full = render(streams);
+    // A text never has more tokens than characters, so short results skip counting
+    if (full.length <= budget || await countTokens(full, tokenization) <= budget) {
+        return full;
+    }
+
+    const note = await onTruncate();
+    const names = Object.keys(streams) as T[];
+    const empty = Object.fromEntries(names.map(name => [name, ''])) as Record<T, string>;
+    const overhead = await countTokens(render(empty, note), tokenization);
+    let charBudget = Math.max(0, budget - overhead) * CHARS_PER_TOKEN;
+    let text = render(empty, note);
+    for (let attempt = 0; attempt < MAX_FIT_ATTEMPTS; attempt++) {
+        // Short streams, often a stderr with the actual error, are kept whole; long ones split the rest
+        const summarized = { ...empty };
+        let remaining = charBudget;
+        const bySize = [...names].sort((a, b) => streams[a].length - streams[b].length);
+        bySize.forEach((name, i) => {
+            const share = Math.floor(remaining / (bySize.length - i));
+            summarized[name] = streams[name] ? summarizeOutput(streams[name], share) : '';
+            remaining -= Math.min(share, summarized[name].length);
+        });
+        text = render(summarized, note);
+
+        const tokens = await countTokens(text, tokenization);
+        if (tokens <= budget) {
+            return text;
+        }
+        charBudget = Math.floor(charBudget * (budget / tokens) * 0.9);
+    }
+    return text;
+}
@@ -0,0 +1,219 @@
+// Words that start or wrap a command without being the command itself
+const RESERVED_WORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '{', '}', '!', 'time']);
+// Commands that run another command, with their options that take a separate
+// value and the number of arguments they take before the command they run
+const WRAPPER_COMMANDS = new Map<string, { valueOptions?: string[]; operands?: number }>([
+    ['sudo', { valueOptions: ['-u', '-g', '-h', '-p', '-C', '-D', '-U', '--user', '--group'] }],
+    ['doas', { valueOptions: ['-u', '-C'] }],
+    ['command', {}],
+    ['builtin', {}],
+    ['exec', { valueOptions: ['-a'] }],
+    ['nohup', {}],
+    ['nice', { valueOptions: ['-n', '--adjustment'] }],
+    ['ionice', { valueOptions: ['-c', '-n', '-p', '-P', '-u', '--class', '--classdata'] }],
+    ['time', { valueOptions: ['-f', '-o', '--format', '--output'] }],
+    ['timeout', { valueOptions: ['-s', '-k', '--signal', '--kill-after'], operands: 1 }],
+    ['stdbuf', { valueOptions: ['-i', '-o', '-e', '--input', '--output', '--error'] }],
+    ['env', { valueOptions: ['-u', '-C', '--unset', '--chdir'] }],
+    ['xargs', { valueOptions: ['-n', '-N', '-P', '-L', '-I', '-d', '-E', '-s', '-a'] }]
+]);
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish', 'pwsh', 'powershell', 'powershell.exe', 'cmd', 'cmd.exe']);
+
+/**
+ * Finds the index of the character closing a nested construct, skipping quoted text.
+ * @param start Index just after the opening character
+ */
+function findClosing(text: string, start: number, open: string, close: string): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (open === '(' && (char === "'" || char === '"')) {
+            // Quoted text inside $( ... ) can't close it
+            const end = char === "'" ? text.indexOf("'", i + 1) : findClosing(text, i + 1, '"', '"');
+            i = end === -1 ? text.length : end;
+        } else if (char === close && (open === close || --depth === 0)) {
+            return i;
+        } else if (char === open && open !== close) {
+            depth++;
+        }
+    }
+    return text.length;
+}
+
+/**
+ * Splits a shell word list into words with quotes and escapes removed.
+ * Command substitutions are kept as written.
+ */
+function toWords(command: string): string[] {
+    const words: string[] = [];
+    let word = '';
+    let inWord = false;
+    for (let i = 0; i < command.length; i++) {
+        const char = command[i];
+        if (/\s/.test(char)) {
+            if (inWord) {
+                words.push(word);
+                word = '';
+                inWord = false;
+            }
+            continue;
+        }
+        inWord = true;
+        if (char === '\\' && i + 1 < command.length) {
+            word += command[++i];
+        } else if ((char === '$' && command[i + 1] === '(') || char === '`') {
+            // Substitutions stay whole, so "x=$(rm y)" is one word rather than "x=$(rm" and "y)"
+            const end = char === '`' ? findClosing(command, i + 1, '`', '`') : findClosing(command, i + 2, '(', ')');
+            word += command.slice(i, end + 1);
+            i = end;
+        } else if (char === "'" || char === '"') {
+            const end = command.indexOf(char, i + 1);
+            word += command.slice(i + 1, end === -1 ? command.length : end);
+            i = end === -1 ? command.length : end;
+        } else {
+            word += char;
+        }
+    }
+    if (inWord) {
+        words.push(word);
+    }
+    return words;
+}
+
+/**
+ * The name a command is run by, without its directory, e.g. "rm" for "/bin/rm".
+ */
+export function commandName(word: string): string {
+    return word.split(/[\\/]/).pop()!;
+}
+
+/**
+ * Strips leading keywords, variable assignments and wrapper commands such as
+ * `sudo` or `timeout 5` so that `FOO=1 sudo /bin/rm -rf x` is checked as
+ * `rm -rf x`. The command word is reduced to its name.
+ */
+function stripWrappers(words: string[]): string[] {
+    let i = 0;
+    while (i < words.length) {
+        const word = words[i];
+        const wrapper = WRAPPER_COMMANDS.get(commandName(word));
+        if (RESERVED_WORDS.has(word) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+            i++;
+        } else if (wrapper) {
+            i++;
+            // Skip the wrapper's own options, e.g. "sudo -u root" or "nice -n 10"
+            while (i < words.length && words[i].startsWith('-')) {
+                const option = words[i++];
+                if (option === '--') {
+                    break;
+                }
+                if (wrapper.valueOptions?.includes(option)) {
+                    i++;
+                }
+            }
+            // Then its operands, like the duration in "timeout 5 cmd"
+            i += wrapper.operands ?? 0;
+        } else {
+            break;
+        }
+    }
+    const command = words.slice(i);
+    if (command.length) {
+        command[0] = commandName(command[0]);
+    }
+    return command;
+}
+
+/**
+ * Splits a shell command line into the simple commands it would run, so that
+ * each can be checked on its own. Handles `&&`, `||`, `;`, `&`, pipes,
+ * newlines, subshells, `$(...)` and backtick substitutions, and the scripts
+ * passed to `sh -c` or `eval`. Each command is returned as its words joined
+ * by single spaces, with quotes removed, wrappers like `sudo` stripped and the
+ * command word reduced to its name.
+ */
+export function splitShellCommands(commandLine: string): string[] {
+    const commands: string[] = [];
+    let current = '';
+
+    const flush = () => {
+        const words = stripWrappers(toWords(current));
+        current = '';
+        if (words.length === 0) {
+            return;
+        }
+        commands.push(words.join(' '));
+
+        // Scripts run by a nested shell or eval are commands too
+        const name = words[0].toLowerCase();
+        if (name === 'eval') {
+            commands.push(...splitShellCommands(words.slice(1).join(' ')));
+        } else if (SHELLS.has(name)) {
+            const scriptIndex = words.findIndex((word, i) => i > 0 && /^(-c|\/c|\/k|-command|-Command)$/i.test(word));
+            if (scriptIndex !== -1 && scriptIndex + 1 < words.length) {
+                commands.push(...splitShellCommands(words.slice(scriptIndex + 1).join(' ')));
+            }
+        }
+    };
+
+    for (let i = 0; i < commandLine.length; i++) {
+        const char = commandLine[i];
+        const next = commandLine[i + 1];
+
+        if (char === '\\') {
+            current += char + (next ?? '');
+            i++;
+        } else if (char === "'") {
+            const end = commandLine.indexOf("'", i + 1);
+            const close = end === -1 ? commandLine.length : end;
+            current += commandLine.slice(i, close + 1);
+            i = close;
+        } else if (char === '"') {
+            // Substitutions still run inside double quotes
+            const close = findClosing(commandLine, i + 1, '"', '"');
+            const quoted = commandLine.slice(i + 1, close);
+            for (const substitution of quoted.matchAll(/\$\(|`/g)) {
+                const start = substitution.index! + substitution[0].length;
+                const end = substitution[0] === '`'
+                    ? findClosing(quoted, start, '`', '`')
+                    : findClosing(quoted, start, '(', ')');
+                commands.push(...splitShellCommands(quoted.slice(start, end)));
+            }
+            current += commandLine.slice(i, close + 1);
+            i = close;
+        } else if (char === '$' && next === '(') {
+            const close = findClosing(commandLine, i + 2, '(', ')');
+            commands.push(...splitShellCommands(commandLine.slice(i + 2, close)));
+            current += commandLine.slice(i, close + 1);
+            i = close;
+        } else if (char === '`') {
+            const close = findClosing(commandLine, i + 1, '`', '`');
+            commands.push(...splitShellCommands(commandLine.slice(i + 1, close)));
+            current += commandLine.slice(i, close + 1);
+            i = close;
+        } else if (char === '(' && (current.trim() === '' || /[<>]$/.test(current))) {
+            // Subshell, or process substitution like <(cmd)
+            const close = findClosing(commandLine, i + 1, '(', ')');
+            commands.push(...splitShellCommands(commandLine.slice(i + 1, close)));
+            if (current.trim() !== '') {
+                current += commandLine.slice(i, close + 1);
+            }
+            i = close;
+        } else if (char === '&' && (/[<>]$/.test(current) || next === '>')) {
+            // Redirections such as 2>&1 and &> are not separators
+            current += char;
+        } else if (char === ';' || char === '|' || char === '&' || char === '\n') {
+            flush();
+            if ((char === '&' || char === '|') && next === char) {
+                i++;
+            }
+        } else {
+            current += char;
+        }
+    }
+    flush();
+
+    return commands;
+}
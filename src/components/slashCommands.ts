@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Logger } from './Logger';
+
+const execFileAsync = promisify(execFile);
+
+// Larger diffs are cut so the review still fits in the prompt with the files it needs to read
+const MAX_DIFF_CHARS = 60_000;
+
+const READ_ONLY_TOOLS = [
+    'cogent_readFile',
+    'cogent_searchFiles',
+    'cogent_goToDefinition',
+    'cogent_findReferences',
+    'cogent_searchSymbols',
+    'cogent_getFileOutline',
+    'cogent_getDiagnostics',
+    'cogent_readCommandLog'
+];
+
+export interface SlashCommand {
+    name: string;
+    /** Instructions for the task, added to the system prompt */
+    instructions: string;
+    /** Names of the tools the command may use; all Cogent tools when undefined */
+    tools?: string[];
+    /** Gathers context for the model before the request is sent */
+    getContext?(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<string>;
+    /** Button offered after the response, sending a follow-up request */
+    followUp?: { title: string; query: string };
+}
+
+async function getGitDiff(workspaceRoot: string): Promise<string> {
+    const git = (...args: string[]) => execFileAsync('git', args, { cwd: workspaceRoot, maxBuffer: 20 * 1024 * 1024 });
+    try {
+        const [{ stdout: status }, { stdout: diff }] = await Promise.all([
+            git('status', '--short'),
+            git('diff', 'HEAD', '--no-color', '--no-ext-diff')
+        ]);
+        if (!status.trim()) {
+            return 'The working tree has no changes to review.';
+        }
+        const shownDiff = diff.length > MAX_DIFF_CHARS
+            ? `${diff.slice(0, MAX_DIFF_CHARS)}\n... diff truncated after ${MAX_DIFF_CHARS} of ${diff.length} characters; read the remaining files with cogent_readFile`
+            : diff;
+        // Untracked files appear in the status (as ??) but not in the diff
+        return `<git_status>\n${status}</git_status>\n<git_diff>\n${shownDiff}</git_diff>`;
+    } catch (error) {
+        Logger.getInstance().warn(`Failed to read git diff: ${error}`);
+        return `The git diff could not be read: ${(error as Error).message.split('\n')[0]}`;
+    }
+}
+
+const SLASH_COMMANDS: SlashCommand[] = [
+    {
+        name: 'plan',
+        tools: READ_ONLY_TOOLS,
+        instructions: `The user wants a plan, not changes. You can only read the workspace in this mode.
+- Investigate the code the request touches before planning; cite the files and symbols involved
+- Produce a numbered list of concrete steps, each naming the files to change and what to change in them
+- Call out risks, open questions and anything you need the user to decide
+- Do not write code beyond short illustrative snippets; the user will approve the plan before it is carried out`,
+        followUp: { title: 'Execute Plan', query: '@cogent Carry out the plan above, step by step.' }
+    },
+    {
+        name: 'review',
+        tools: READ_ONLY_TOOLS,
+        instructions: `The user wants a code review of their uncommitted changes, shown below as git status and git diff. You can only read the workspace in this mode.
+- Read the surrounding code where the diff alone doesn't show whether a change is correct
+- Comment per file, quoting the line (with its line number in the new file) each comment is about
+- Prioritize bugs, missing error handling, security issues and behavior changes over style
+- Say what is good only briefly; end with a short overall verdict`,
+        getContext: async workspaceFolders => {
+            // Each folder of a multi-root workspace is usually its own repository
+            const diffs = await Promise.all(workspaceFolders.map(async folder => workspaceFolders.length > 1
+                ? `### ${folder.name}\n${await getGitDiff(folder.uri.fsPath)}`
+                : getGitDiff(folder.uri.fsPath)));
+            return `## Changes to Review\n${diffs.join('\n\n')}`;
+        }
+    },
+    {
+        name: 'explain',
+        tools: READ_ONLY_TOOLS,
+        instructions: `The user wants an explanation. You can only read the workspace in this mode.
+- Explain the code, behavior or concept the user asks about, starting with the big picture and then the details
+- Follow definitions and references with the navigation tools rather than guessing how things connect
+- Point to the files and line numbers you are describing
+- Do not suggest changes unless asked`
+    },
+    {
+        name: 'test',
+        instructions: `The user wants tests written and passing.
+- Find how the project already tests code (framework, file locations, naming, helpers) and follow it exactly
+- Write focused tests for the behavior the user names, including edge cases and failure paths
+- Run the tests with cogent_runCommand, read the failures, and fix them, repeating until they pass
+- Fix the tests when they are wrong, and the code only when the tests expose a real bug; tell the user about any such bug
+- Never delete, skip or weaken a test to make it pass`
+    }
+];
+
+export function getSlashCommand(name: string | undefined): SlashCommand | undefined {
+    return SLASH_COMMANDS.find(command => command.name === name);
+}
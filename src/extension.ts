@@ -1,8 +1,19 @@
 import * as vscode from 'vscode';
 import { registerToolUserChatParticipant } from './toolParticipant';
-import { FileReadTool, FileWriteTool, FileUpdateTool, CommandRunTool, ApplyDiffTool } from './tools';
+import {
+    FileReadTool, FileWriteTool, FileUpdateTool, CommandRunTool, ApplyDiffTool, ProcessReadTool, ProcessWriteTool, ProcessStopTool, CommandLogReadTool, FileSearchTool,
+    SymbolDefinitionTool, SymbolReferencesTool, SymbolSearchTool, FileOutlineTool, DiagnosticsGetTool,
+    FileDeleteTool, FileRenameTool, DirectoryCreateTool
+} from './tools';
 import { DiffView } from './components/DiffView';
 import { Logger } from './components/Logger';
+import { BackgroundProcess, BackgroundProcessManager } from './components/BackgroundProcessManager';
+import { BackgroundProcessTreeProvider } from './components/BackgroundProcessTreeProvider';
+import { CommandLog } from './components/CommandLog';
+import { CheckpointManager } from './components/CheckpointManager';
+import { PendingChangesManager } from './components/PendingChangesManager';
+import { PendingChange, PendingChangesTreeProvider } from './components/PendingChangesTreeProvider';
+import { WorkspaceIndex } from './components/WorkspaceIndex';
 
 export function activate(context: vscode.ExtensionContext) {
     const logger = Logger.getInstance();
@@ -11,10 +22,66 @@ export function activate(context: vscode.ExtensionContext) {
     // Register tools
     context.subscriptions.push(
         vscode.lm.registerTool('cogent_readFile', new FileReadTool()),
+        vscode.lm.registerTool('cogent_searchFiles', new FileSearchTool()),
+        vscode.lm.registerTool('cogent_goToDefinition', new SymbolDefinitionTool()),
+        vscode.lm.registerTool('cogent_findReferences', new SymbolReferencesTool()),
+        vscode.lm.registerTool('cogent_searchSymbols', new SymbolSearchTool()),
+        vscode.lm.registerTool('cogent_getFileOutline', new FileOutlineTool()),
+        vscode.lm.registerTool('cogent_getDiagnostics', new DiagnosticsGetTool()),
         vscode.lm.registerTool('cogent_writeFile', new FileWriteTool()),
         vscode.lm.registerTool('cogent_updateFile', new FileUpdateTool()),
+        vscode.lm.registerTool('cogent_deleteFile', new FileDeleteTool()),
+        vscode.lm.registerTool('cogent_renameFile', new FileRenameTool()),
+        vscode.lm.registerTool('cogent_createDirectory', new DirectoryCreateTool()),
         vscode.lm.registerTool('cogent_runCommand', new CommandRunTool()),
-        vscode.lm.registerTool('cogent_applyDiff', new ApplyDiffTool())
+        vscode.lm.registerTool('cogent_applyDiff', new ApplyDiffTool()),
+        vscode.lm.registerTool('cogent_readProcessOutput', new ProcessReadTool()),
+        vscode.lm.registerTool('cogent_sendProcessInput', new ProcessWriteTool()),
+        vscode.lm.registerTool('cogent_stopProcess', new ProcessStopTool()),
+        vscode.lm.registerTool('cogent_readCommandLog', new CommandLogReadTool())
+    );
+    CommandLog.initialize((context.storageUri ?? context.globalStorageUri).fsPath);
+    CheckpointManager.initialize((context.storageUri ?? context.globalStorageUri).fsPath);
+    WorkspaceIndex.getInstance().initialize();
+
+    // Background processes started by cogent_runCommand
+    const processManager = BackgroundProcessManager.getInstance();
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('cogent.backgroundProcesses', new BackgroundProcessTreeProvider(processManager)),
+        vscode.commands.registerCommand('cogent.showBackgroundProcess', (process: BackgroundProcess) => processManager.show(process.id)),
+        vscode.commands.registerCommand('cogent.stopBackgroundProcess', (process: BackgroundProcess) => processManager.stop(process.id))
+    );
+
+    // Files changed by Cogent, reviewed by file or by hunk
+    const changesManager = PendingChangesManager.getInstance();
+    const reportFailure = (action: (change: PendingChange) => Promise<void>) => async (change: PendingChange) => {
+        try {
+            await action(change);
+        } catch (error) {
+            vscode.window.showErrorMessage((error as Error).message);
+        }
+    };
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('cogent.pendingChanges', new PendingChangesTreeProvider(changesManager)),
+        vscode.commands.registerCommand('cogent.showChange', (change: PendingChange) =>
+            changesManager.showDiff(change.path, change.kind === 'hunk' ? change.hunk : undefined)),
+        vscode.commands.registerCommand('cogent.acceptChange', reportFailure(change =>
+            change.kind === 'hunk' ? changesManager.acceptHunk(change.path, change.hunk) : changesManager.acceptFile(change.path))),
+        vscode.commands.registerCommand('cogent.rejectChange', reportFailure(change =>
+            change.kind === 'hunk' ? changesManager.rejectHunk(change.path, change.hunk) : changesManager.rejectFile(change.path))),
+        vscode.commands.registerCommand('cogent.rejectAllChanges', async () => {
+            const confirmed = await vscode.window.showWarningMessage(
+                'Restore every file Cogent changed to its earlier content?', { modal: true }, 'Reject All'
+            );
+            if (confirmed !== 'Reject All') {
+                return;
+            }
+            try {
+                await changesManager.rejectAll();
+            } catch (error) {
+                vscode.window.showErrorMessage((error as Error).message);
+            }
+        })
     );
     
     // Register the tool participant
@@ -24,4 +91,7 @@ export function activate(context: vscode.ExtensionContext) {
 export function deactivate() {
     Logger.getInstance().dispose();
     DiffView.dispose();
+    BackgroundProcessManager.getInstance().dispose();
+    PendingChangesManager.getInstance().dispose();
+    WorkspaceIndex.getInstance().dispose();
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import { editDistance, LineMatcher } from '../components/LineMatcher';
+
+const FILE_LINES = 10_000;
+
+// Plain dynamic-programming Levenshtein distance to check the bit-parallel one against
+function referenceDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// A source-like file whose lines are all distinct, with some repeated boilerplate
+function makeFile(lineCount: number): string[] {
+    const lines: string[] = [];
+    for (let i = 0; lines.length < lineCount; i++) {
+        lines.push(
+            `export function handler${i}(request: Request, options: Options = {}): Response {`,
+            `    const value${i} = compute(request.body, ${i}, options.timeout ?? ${i * 7});`,
+            `    if (!value${i}) {`,
+            `        throw new Error('handler ${i} failed for ' + request.url);`,
+            '    }',
+            `    return respond(value${i}, { status: ${200 + (i % 5)} });`,
+            '}',
+            ''
+        );
+    }
+    return lines.slice(0, lineCount);
+}
+
+function timed<T>(run: () => T): { result: T; ms: number } {
+    const start = performance.now();
+    const result = run();
+    return { result, ms: performance.now() - start };
+}
+
+suite('LineMatcher', () => {
+    const fileLines = makeFile(FILE_LINES);
+    const target = 7_203;
+    const searchLines = fileLines.slice(target, target + 40);
+
+    test('editDistance matches a reference Levenshtein implementation', () => {
+        const pairs: [string, string][] = [
+            ['', ''],
+            ['', 'abc'],
+            ['kitten', 'sitting'],
+            ['flaw', 'lawn'],
+            ['const a = 1;', 'const  b = 2;'],
+            ['ünïcödé — text', 'unicode - text'],
+            ['x'.repeat(31) + 'y', 'x'.repeat(32)],
+            ['abc'.repeat(40), 'abd'.repeat(35) + 'zz'],
+            ['the quick brown fox jumps over the lazy dog'.repeat(3), 'the quick brown cat jumped over lazy dogs'.repeat(3)]
+        ];
+        for (const [a, b] of pairs) {
+            assert.strictEqual(editDistance(a, b), referenceDistance(a, b), `distance between "${a}" and "${b}"`);
+            assert.strictEqual(editDistance(b, a), referenceDistance(a, b), `distance between "${b}" and "${a}"`);
+        }
+
+        // Random strings from a small alphabet, crossing the 32 and 64 character block boundaries
+        let seed = 42;
+        const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+        const randomString = () => Array.from({ length: Math.floor(random() * 90) }, () => 'abcd '[Math.floor(random() * 5)]).join('');
+        for (let i = 0; i < 200; i++) {
+            const a = randomString();
+            const b = randomString();
+            assert.strictEqual(editDistance(a, b), referenceDistance(a, b), `distance between "${a}" and "${b}"`);
+        }
+    });
+
+    test('finds an exact match in a 10k-line file in well under 100 ms', () => {
+        const { result, ms } = timed(() => new LineMatcher(fileLines).findBestMatch(searchLines));
+        assert.deepStrictEqual(result, { index: target, score: 1 });
+        assert.ok(ms < 100, `took ${ms.toFixed(1)}ms`);
+    });
+
+    test('finds a whitespace-normalized match in a 10k-line file in well under 100 ms', () => {
+        const reindented = searchLines.map(line => line.replace(/^ {4}/, '\t').replace(/ = /g, '  =  '));
+        const { result, ms } = timed(() => new LineMatcher(fileLines).findBestMatch(reindented));
+        assert.deepStrictEqual(result, { index: target, score: 1 });
+        assert.ok(ms < 100, `took ${ms.toFixed(1)}ms`);
+    });
+
+    test('finds a fuzzy match in a 10k-line file in well under 100 ms', () => {
+        const edited = searchLines.map((line, i) => i % 4 === 1 ? line.replace('compute', 'computeValue').replace('options', 'opts') : line);
+        const { result, ms } = timed(() => new LineMatcher(fileLines).findBestMatch(edited));
+        assert.strictEqual(result.index, target);
+        assert.ok(result.score > 0.9 && result.score < 1, `score ${result.score}`);
+        assert.ok(ms < 100, `took ${ms.toFixed(1)}ms`);
+    });
+
+    test('prefers the window closest to the center among identical matches', () => {
+        const repeated = ['a', 'b', 'x', 'a', 'b', 'y', 'a', 'b'];
+        const matcher = new LineMatcher(repeated);
+        assert.strictEqual(matcher.findBestMatch(['a', 'b'], 0, repeated.length, 7).index, 6);
+        assert.strictEqual(matcher.findBestMatch(['a', 'b'], 0, repeated.length, 0).index, 0);
+        assert.strictEqual(matcher.findBestMatch(['a', 'b'], 2, 6).index, 3);
+    });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { UnifiedDiffStrategy } from '../components/UnifiedDiffStrategy';
+
+suite('UnifiedDiffStrategy', () => {
+    const strategy = new UnifiedDiffStrategy();
+
+    test('applies removed and added lines that look like file headers', () => {
+        const result = strategy.applyDiff('x\n-- comment\ny', '@@ -1,3 +1,3 @@\n x\n--- comment\n+++ added\n y\n');
+        assert.deepStrictEqual(result, { success: true, content: 'x\n++ added\ny', fuzzyMatches: undefined });
+    });
+
+    test('keeps header-like hunk lines in their file when splitting a patch', () => {
+        const patch = [
+            '--- a/schema.sql',
+            '+++ b/schema.sql',
+            '@@ -1,3 +1,3 @@',
+            ' create table t (id int);',
+            '--- old comment',
+            '+++ new comment',
+            ' drop table u;',
+            '--- a/src/loop.c',
+            '+++ b/src/loop.c',
+            '@@ -1 +1 @@',
+            '-i++;',
+            '+++i;'
+        ].join('\n');
+
+        const files = UnifiedDiffStrategy.splitFiles(patch);
+        assert.deepStrictEqual(files.map(file => file.path), ['schema.sql', 'src/loop.c']);
+        assert.deepStrictEqual(
+            strategy.applyDiff('create table t (id int);\n-- old comment\ndrop table u;', files[0].diff),
+            { success: true, content: 'create table t (id int);\n++ new comment\ndrop table u;', fuzzyMatches: undefined }
+        );
+        assert.deepStrictEqual(
+            strategy.applyDiff('i++;', files[1].diff),
+            { success: true, content: '++i;', fuzzyMatches: undefined }
+        );
+    });
+
+    test('reports matches that differ only in whitespace', () => {
+        const result = strategy.applyDiff('a\n\tb\nc', '@@ -1,3 +1,3 @@\n a\n-    b\n+    B\n c\n');
+        assert.ok(result.success);
+        assert.strictEqual(result.content, 'a\n    B\nc');
+        assert.deepStrictEqual(result.fuzzyMatches, [{
+            block: 1,
+            similarity: 1,
+            matchedRange: { start: 1, end: 3 },
+            differences: [{ line: 2, expected: '    b', actual: '\tb' }]
+        }]);
+    });
+
+    test('still reads hunks whose line counts are wrong', () => {
+        const result = strategy.applyDiff('a\nb\nc\nd', '@@ -1,2 +1,2 @@\n a\n-b\n+B\n c\n-d\n+D\n');
+        assert.deepStrictEqual(result, { success: true, content: 'a\nB\nc\nD', fuzzyMatches: undefined });
+    });
+});
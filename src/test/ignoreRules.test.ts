@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { findAgentIgnoredPath, IgnoreMatcher } from '../components/ignoreRules';
+
+suite('ignoreRules', () => {
+    let root: string;
+
+    suiteSetup(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'cogent-ignore-'));
+        await fs.mkdir(path.join(root, 'src', 'generated'), { recursive: true });
+        await fs.writeFile(path.join(root, '.gitignore'), 'build/\n*.log\n');
+        await fs.writeFile(path.join(root, '.cogentignore'), 'secrets/\n*.snap\n!keep.snap\n');
+        await fs.writeFile(path.join(root, 'src', '.cogentignore'), 'generated/\n');
+    });
+
+    suiteTeardown(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    test('follows gitignore precedence across nested ignore files', async () => {
+        const matcher = await IgnoreMatcher.forWorkspace(root, []);
+        const src = await matcher.forDirectory('src');
+        assert.strictEqual(matcher.isIgnored('build', true), true);
+        assert.strictEqual(matcher.isIgnored('build', false), false);
+        assert.strictEqual(matcher.isIgnored('deep/app.log', false), true);
+        assert.strictEqual(matcher.isIgnored('a.snap', false), true);
+        assert.strictEqual(matcher.isIgnored('keep.snap', false), false);
+        assert.strictEqual(src.isIgnored('src/generated', true), true);
+        assert.strictEqual(src.isIgnored('generated', true), false);
+    });
+
+    test('finds paths hidden by .cogentignore, including through their directories', async () => {
+        const ignored = await findAgentIgnoredPath(root, ['secrets/key.txt']);
+        assert.strictEqual(ignored?.path, 'secrets');
+        assert.strictEqual(ignored?.rule.pattern, 'secrets/');
+
+        const nested = await findAgentIgnoredPath(root, ['src/generated/api.ts']);
+        assert.strictEqual(nested?.path, 'src/generated');
+        assert.strictEqual(nested?.rule.base, 'src');
+
+        assert.strictEqual((await findAgentIgnoredPath(root, ['secrets/']))?.path, 'secrets');
+        assert.strictEqual((await findAgentIgnoredPath(root, ['ui/a.snap']))?.path, 'ui/a.snap');
+    });
+
+    test('leaves paths only git ignores, and re-included ones, reachable', async () => {
+        assert.strictEqual(await findAgentIgnoredPath(root, ['build/out.js', 'server.log', 'keep.snap', 'secrets', 'src/app.ts']), undefined);
+    });
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { splitShellCommands } from '../components/shellCommands';
+
+suite('splitShellCommands', () => {
+    test('checks the command in an assignment with a substitution, and nothing else', () => {
+        assert.deepStrictEqual(splitShellCommands('x=$(rm y)'), ['rm y']);
+        assert.deepStrictEqual(splitShellCommands('x=$(rm y) ls -la'), ['rm y', 'ls -la']);
+        assert.deepStrictEqual(splitShellCommands('FOO=`rm z` ls'), ['rm z', 'ls']);
+        assert.deepStrictEqual(splitShellCommands('a=$(b $(c d)) e'), ['c d', 'b $(c d)', 'e']);
+    });
+
+    test('splits compound commands and nested shells', () => {
+        assert.deepStrictEqual(splitShellCommands('npm test && rm -rf / ; echo done | tee log'), ['npm test', 'rm -rf /', 'echo done', 'tee log']);
+        assert.deepStrictEqual(splitShellCommands('bash -c "git push"'), ['bash -c git push', 'git push']);
+        assert.deepStrictEqual(splitShellCommands('make 2>&1 > out.log'), ['make 2>&1 > out.log']);
+    });
+
+    test('strips wrappers and reduces the command word to its name', () => {
+        assert.deepStrictEqual(splitShellCommands('/bin/rm -rf /'), ['rm -rf /']);
+        assert.deepStrictEqual(splitShellCommands('FOO=1 sudo -u root timeout -s KILL 10s nice -n 5 /usr/bin/rm x'), ['rm x']);
+        assert.deepStrictEqual(splitShellCommands('stdbuf -oL env -u HOME command exec rm y'), ['rm y']);
+    });
+});
@@ -1,9 +1,21 @@
-import { renderPrompt } from '@vscode/prompt-tsx';
+import { PromptReference, renderPrompt } from '@vscode/prompt-tsx';
 import * as vscode from 'vscode';
 import { ToolCallRound, ToolResultMetadata, ToolUserPrompt } from './toolsPrompt';
+import { Checkpoint, CheckpointManager } from './components/CheckpointManager';
+import { PendingChangesManager } from './components/PendingChangesManager';
+import { describeModel, ModelSelector } from './components/ModelSelector';
+import { getSlashCommand } from './components/slashCommands';
 
 export interface TsxToolUserMetadata {
     toolCallsMetadata: ToolCallsMetadata;
+    /** Set when a turn limit stopped the request, so /continue can resume it */
+    stoppedTurn?: StoppedTurn;
+}
+
+export interface StoppedTurn {
+    prompt: string;
+    command?: string;
+    references: readonly vscode.ChatPromptReference[];
 }
 
 export interface ToolCallsMetadata {
@@ -11,6 +23,24 @@ export interface ToolCallsMetadata {
     toolCallResults: Record<string, vscode.LanguageModelToolResult>;
 }
 
+interface TurnLimits {
+    maxToolRounds: number;
+    maxIdenticalToolCalls: number;
+    maxDurationMs: number;
+}
+
+/**
+ * Limits that stop a turn from looping on tool calls indefinitely. 0 means no limit.
+ */
+function getTurnLimits(): TurnLimits {
+    const config = vscode.workspace.getConfiguration('cogent');
+    return {
+        maxToolRounds: config.get('maxToolRounds', 25),
+        maxIdenticalToolCalls: config.get('maxIdenticalToolCalls', 3),
+        maxDurationMs: config.get('maxTurnMinutes', 10) * 60_000
+    };
+}
+
 interface ReadFileToolInput {
     paths: string[];
 }
@@ -21,56 +51,227 @@ export function isTsxToolUserMetadata(obj: unknown): obj is TsxToolUserMetadata
         Array.isArray((obj as TsxToolUserMetadata).toolCallsMetadata.toolCallRounds);
 }
 
+/**
+ * Resumes the request the previous response stopped at a turn limit: the
+ * request is sent again with its tool calls and results so far carried over
+ * as the current turn, instead of repeated in the chat history.
+ */
+function resumeStoppedTurn(request: vscode.ChatRequest, chatContext: vscode.ChatContext):
+    { request: vscode.ChatRequest; context: vscode.ChatContext; toolCallsMetadata: ToolCallsMetadata } | undefined {
+    const history = chatContext.history;
+    const last = history[history.length - 1];
+    if (!(last instanceof vscode.ChatResponseTurn) || !isTsxToolUserMetadata(last.result.metadata) || !last.result.metadata.stoppedTurn) {
+        return undefined;
+    }
+    const { stoppedTurn, toolCallsMetadata } = last.result.metadata;
+    return {
+        request: { ...request, prompt: stoppedTurn.prompt, command: stoppedTurn.command, references: stoppedTurn.references ?? [], toolReferences: [] },
+        context: { history: history.slice(0, -2) },
+        toolCallsMetadata: {
+            toolCallRounds: [...toolCallsMetadata.toolCallRounds],
+            toolCallResults: { ...toolCallsMetadata.toolCallResults }
+        }
+    };
+}
+
+/**
+ * Reverts the files changed by a turn and every later turn, after asking.
+ * Without an id, lets the user pick the turn to go back to.
+ */
+async function revertTurn(id?: string): Promise<void> {
+    if (!id) {
+        const picked = await vscode.window.showQuickPick(
+            CheckpointManager.list().reverse().map(checkpoint => ({
+                label: checkpoint.prompt.split('\n')[0].slice(0, 80) || '(empty prompt)',
+                description: new Date(checkpoint.createdAt).toLocaleString(),
+                detail: describeFiles(checkpoint),
+                id: checkpoint.id
+            })),
+            { placeHolder: 'Revert files to how they were before this turn' }
+        );
+        if (!picked) {
+            return;
+        }
+        id = picked.id;
+    }
+
+    const turns = CheckpointManager.getTurnsFrom(id);
+    if (turns.length === 0) {
+        vscode.window.showErrorMessage('This turn\'s checkpoint is no longer available.');
+        return;
+    }
+    const later = turns.length > 1 ? ` and ${turns.length - 1} later turn${turns.length > 2 ? 's' : ''}` : '';
+    const confirmed = await vscode.window.showWarningMessage(
+        `Revert the files changed by this turn${later}?`,
+        { modal: true, detail: turns.map(describeFiles).join('\n') },
+        'Revert'
+    );
+    if (confirmed !== 'Revert') {
+        return;
+    }
+
+    try {
+        const reverted = await CheckpointManager.revertTo(id);
+        vscode.window.showInformationMessage(`Reverted ${reverted.length} file${reverted.length === 1 ? '' : 's'}`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Revert failed: ${(error as Error).message}`);
+    }
+}
+
+function describeFiles(checkpoint: Checkpoint): string {
+    return checkpoint.entries
+        .filter(entry => entry.kind === 'file')
+        .map(entry => `${vscode.workspace.asRelativePath(entry.path)}${entry.existed ? '' : ' (created)'}`)
+        .join(', ');
+}
+
+/**
+ * /model lists the available models, or switches to one for this session.
+ */
+async function handleModelCommand(request: vscode.ChatRequest, stream: vscode.ChatResponseStream): Promise<void> {
+    const query = request.prompt.trim();
+    if (query === 'default') {
+        ModelSelector.setSessionModel(undefined);
+        const selected = await ModelSelector.select();
+        stream.markdown(`Using the models from \`cogent.models\` again${selected ? `; currently ${describeModel(selected.model)}` : ''}.`);
+        return;
+    }
+
+    if (query) {
+        const model = await ModelSelector.find(query);
+        if (model) {
+            ModelSelector.setSessionModel(model);
+            stream.markdown(`Cogent will use ${describeModel(model)} for the rest of this session. Use \`/model default\` to go back to \`cogent.models\`.`);
+            return;
+        }
+        stream.markdown(`No available model matches "${query}".\n\n`);
+    }
+
+    const models = await vscode.lm.selectChatModels();
+    const current = (await ModelSelector.select())?.model;
+    if (models.length === 0) {
+        stream.markdown('No language models are available. Make sure GitHub Copilot Chat, or another extension providing language models, is installed and signed in.');
+        return;
+    }
+    stream.markdown([
+        'Available models:',
+        ...models.map(model => `- ${describeModel(model)}, id \`${model.id}\`${model.id === current?.id ? ' **(current)**' : ''}`),
+        '',
+        'Switch with `/model <id or family>`, or go back to `cogent.models` with `/model default`.'
+    ].join('\n'));
+}
+
 export function registerToolUserChatParticipant(context: vscode.ExtensionContext) {
     const handler: vscode.ChatRequestHandler = async (request: vscode.ChatRequest, chatContext: vscode.ChatContext, stream: vscode.ChatResponseStream, token: vscode.CancellationToken) => {
-        const MODEL_SELECTOR: vscode.LanguageModelChatSelector = { vendor: 'copilot', family: 'claude-3.5-sonnet' };
-        let [model] = await vscode.lm.selectChatModels(MODEL_SELECTOR);
-        if (!model) {
-            [model] = await vscode.lm.selectChatModels({ vendor: 'copilot', family: 'gpt-4o' });
-            if (!model) {
-                stream.markdown("No language model available.")
+        if (request.command === 'model') {
+            await handleModelCommand(request, stream);
+            return {};
+        }
+
+        let toolCallsMetadata: ToolCallsMetadata = { toolCallRounds: [], toolCallResults: {} };
+        if (request.command === 'continue') {
+            const resumed = resumeStoppedTurn(request, chatContext);
+            if (!resumed) {
+                stream.markdown('There is no stopped request to continue. `/continue` resumes the previous request after it hits a turn limit.');
+                return {};
             }
+            ({ request, context: chatContext, toolCallsMetadata } = resumed);
         }
 
+        const selected = await ModelSelector.select();
+        if (!selected) {
+            const wanted = ModelSelector.getPreferences()
+                .map(preference => [preference.vendor, preference.family, preference.version, preference.id].filter(Boolean).join('/'))
+                .join(', ');
+            stream.markdown(
+                `No language model available. Cogent looked for ${wanted || 'any model'} from \`cogent.models\`.\n\n` +
+                'Make sure GitHub Copilot Chat, or another extension providing language models, is installed and signed in. ' +
+                'Run `/model` to see the models you have, then add one to `cogent.models` or pick it with `/model <id>`.'
+            );
+            return {};
+        }
+        const { model, preference } = selected;
+
         const useFullWorkspace = vscode.workspace.getConfiguration('cogent').get('use_full_workspace', false);
-        const tools = vscode.lm.tools.filter(tool =>
+        const slashCommand = getSlashCommand(request.command);
+        const isAllowed = (toolName: string) => !slashCommand?.tools || slashCommand.tools.includes(toolName);
+        const tools = ModelSelector.getTools(vscode.lm.tools.filter(tool =>
             tool.name.startsWith('cogent_') &&
-            (!useFullWorkspace || tool.name !== 'cogent_readFile')
-        );
+            (!useFullWorkspace || tool.name !== 'cogent_readFile') &&
+            isAllowed(tool.name)
+        ), preference);
+
+        let commandInstructions: string | undefined;
+        if (slashCommand) {
+            const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+            const commandContext = workspaceFolders.length && slashCommand.getContext ? await slashCommand.getContext(workspaceFolders) : '';
+            commandInstructions = [slashCommand.instructions, commandContext].filter(Boolean).join('\n\n');
+        }
 
         const options: vscode.LanguageModelChatRequestOptions = {
             justification: 'To make a request to Cogent',
         };
 
+        const toolCallRounds: ToolCallRound[] = toolCallsMetadata.toolCallRounds;
+        const accumulatedToolResults: Record<string, vscode.LanguageModelToolResult> = toolCallsMetadata.toolCallResults;
+        // A resumed request gets the full allowance of rounds again
+        const resumedRounds = toolCallRounds.length;
+        let hasFileUpdateCall = toolCallRounds.some(round =>
+            round.toolCalls.some(toolCall => toolCall.name === 'cogent_updateFile' || toolCall.name === 'cogent_applyDiff'));
+
         const result = await renderPrompt(
             ToolUserPrompt,
             {
                 context: chatContext,
                 request,
-                toolCallRounds: [],
-                toolCallResults: {}
+                toolCallRounds,
+                toolCallResults: accumulatedToolResults,
+                modelInstructions: preference?.instructions,
+                commandInstructions
             },
             { modelMaxPromptTokens: model.maxInputTokens },
             model
         );
 
         let messages = result.messages;
-        result.references.forEach(ref => {
+        // Rules files can come into effect as tool calls reach new directories, so each render may add references
+        const reportedReferences = new Set<string>();
+        const reportReferences = (references: PromptReference[]) => references.forEach(ref => {
             if (ref.anchor instanceof vscode.Uri || ref.anchor instanceof vscode.Location) {
-                stream.reference(ref.anchor);
+                const key = ref.anchor instanceof vscode.Uri ? ref.anchor.toString() : `${ref.anchor.uri.toString()}#${ref.anchor.range.start.line}`;
+                if (!reportedReferences.has(key)) {
+                    reportedReferences.add(key);
+                    stream.reference(ref.anchor);
+                }
             }
         });
+        reportReferences(result.references);
 
-        const toolReferences = [...request.toolReferences];
-        const accumulatedToolResults: Record<string, vscode.LanguageModelToolResult> = {};
-        const toolCallRounds: ToolCallRound[] = [];
-        let hasFileUpdateCall = false;
+        const toolReferences = request.toolReferences.filter(reference => isAllowed(reference.name));
+
+        const limits = getTurnLimits();
+        const startTime = Date.now();
+        let lastCallKey: string | undefined;
+        let identicalCalls = 0;
+        let stopReason: string | undefined;
 
         const runWithTools = async (): Promise<void> => {
+            if (token.isCancellationRequested) {
+                return;
+            }
+            if (limits.maxToolRounds && toolCallRounds.length - resumedRounds >= limits.maxToolRounds) {
+                stopReason = `it reached the limit of ${limits.maxToolRounds} tool rounds per request (\`cogent.maxToolRounds\`)`;
+                return;
+            }
+            if (limits.maxDurationMs && Date.now() - startTime >= limits.maxDurationMs) {
+                stopReason = `it ran for longer than ${limits.maxDurationMs / 60_000} minutes (\`cogent.maxTurnMinutes\`)`;
+                return;
+            }
+
             const requestedTool = toolReferences.shift();
             if (requestedTool) {
                 options.toolMode = vscode.LanguageModelChatToolMode.Required;
-                options.tools = vscode.lm.tools.filter(tool => tool.name === requestedTool.name);
+                options.tools = ModelSelector.getTools(vscode.lm.tools.filter(tool => tool.name === requestedTool.name), preference);
             } else {
                 options.toolMode = undefined;
                 options.tools = [...tools];
@@ -98,19 +299,41 @@ export function registerToolUserChatParticipant(context: vscode.ExtensionContext
                     toolCalls
                 });
 
+                for (const toolCall of toolCalls) {
+                    const callKey = `${toolCall.name}:${JSON.stringify(toolCall.input)}`;
+                    identicalCalls = callKey === lastCallKey ? identicalCalls + 1 : 1;
+                    lastCallKey = callKey;
+                }
+                if (limits.maxIdenticalToolCalls && identicalCalls > limits.maxIdenticalToolCalls) {
+                    const repeated = toolCalls[toolCalls.length - 1].name;
+                    stopReason = `it called \`${repeated}\` with the same input ${identicalCalls} times in a row (\`cogent.maxIdenticalToolCalls\`)`;
+                    // The calls aren't run, and aren't run on Continue either; the model sees why instead
+                    for (const toolCall of toolCalls) {
+                        accumulatedToolResults[toolCall.callId] = new vscode.LanguageModelToolResult([
+                            new vscode.LanguageModelTextPart(
+                                `Not run: this repeats the same ${repeated} call ${identicalCalls} times in a row. The previous attempts didn't work; try a different approach or ask the user.`
+                            )
+                        ]);
+                    }
+                    return;
+                }
+
                 const result = await renderPrompt(
                     ToolUserPrompt,
                     {
                         context: chatContext,
                         request,
                         toolCallRounds,
-                        toolCallResults: accumulatedToolResults
+                        toolCallResults: accumulatedToolResults,
+                        modelInstructions: preference?.instructions,
+                        commandInstructions
                     },
                     { modelMaxPromptTokens: model.maxInputTokens },
                     model
                 );
 
                 messages = result.messages;
+                reportReferences(result.references);
                 const toolResultMetadata = result.metadatas.getAll(ToolResultMetadata);
                 if (toolResultMetadata?.length) {
                     toolResultMetadata.forEach(meta => accumulatedToolResults[meta.toolCallId] = meta.result);
@@ -120,7 +343,29 @@ export function registerToolUserChatParticipant(context: vscode.ExtensionContext
             }
         };
 
-        await runWithTools();
+        CheckpointManager.beginTurn(request.prompt);
+        let checkpoint: Checkpoint | undefined;
+        try {
+            await runWithTools();
+        } finally {
+            checkpoint = CheckpointManager.endTurn();
+        }
+
+        if (slashCommand?.followUp && !stopReason && !token.isCancellationRequested) {
+            stream.button({
+                command: 'cogent.continueTurn',
+                arguments: [slashCommand.followUp.query],
+                title: vscode.l10n.t(slashCommand.followUp.title)
+            });
+        }
+
+        if (stopReason) {
+            stream.markdown(`\n\n---\n**Cogent stopped because ${stopReason}.** Its progress so far is kept; select Continue to resume the request where it stopped.`);
+            stream.button({
+                command: 'cogent.continueTurn',
+                title: vscode.l10n.t('Continue')
+            });
+        }
 
         if (hasFileUpdateCall) {
             stream.button({
@@ -128,13 +373,23 @@ export function registerToolUserChatParticipant(context: vscode.ExtensionContext
                 title: vscode.l10n.t('Save All Changes')
             });
         }
+        if (checkpoint) {
+            stream.button({
+                command: 'cogent.revertTurn',
+                arguments: [checkpoint.id],
+                title: vscode.l10n.t('Revert This Turn')
+            });
+        }
 
         return {
             metadata: {
                 toolCallsMetadata: {
                     toolCallResults: accumulatedToolResults,
                     toolCallRounds
-                }
+                },
+                stoppedTurn: stopReason
+                    ? { prompt: request.prompt, command: request.command, references: request.references }
+                    : undefined
             } satisfies TsxToolUserMetadata,
         };
     };
@@ -143,10 +398,22 @@ export function registerToolUserChatParticipant(context: vscode.ExtensionContext
     toolUser.iconPath = vscode.Uri.joinPath(context.extensionUri, 'assets/cogent.jpeg');
 
     // Register the apply changes command
+    // Only files Cogent changed are saved, not every dirty editor
     const applyChangesCommand = vscode.commands.registerCommand('cogent.applyChanges', async () => {
-        await vscode.workspace.saveAll();
-        vscode.window.showInformationMessage('All changes have been saved');
+        try {
+            const saved = await PendingChangesManager.getInstance().acceptAll();
+            vscode.window.showInformationMessage(`Saved ${saved} file${saved === 1 ? '' : 's'} changed by Cogent`);
+        } catch (error) {
+            vscode.window.showErrorMessage((error as Error).message);
+        }
     });
 
-    context.subscriptions.push(toolUser, applyChangesCommand);
+    const revertTurnCommand = vscode.commands.registerCommand('cogent.revertTurn', revertTurn);
+
+    // Without a query, /continue resumes the stopped request with its tool calls so far
+    const continueTurnCommand = vscode.commands.registerCommand('cogent.continueTurn', (query?: string) =>
+        vscode.commands.executeCommand('workbench.action.chat.open', { query: query ?? '@cogent /continue' })
+    );
+
+    context.subscriptions.push(toolUser, applyChangesCommand, revertTurnCommand, continueTurnCommand);
 }
@@ -3,5 +3,37 @@ import { FileWriteTool } from './tools/FileWriteTool';
 import { FileUpdateTool } from './tools/FileUpdateTool';
 import { CommandRunTool } from './tools/CommandRunTool';
 import { ApplyDiffTool } from './tools/ApplyDiffTool';
+import { ProcessReadTool } from './tools/ProcessReadTool';
+import { ProcessWriteTool } from './tools/ProcessWriteTool';
+import { ProcessStopTool } from './tools/ProcessStopTool';
+import { CommandLogReadTool } from './tools/CommandLogReadTool';
+import { FileSearchTool } from './tools/FileSearchTool';
+import { SymbolDefinitionTool } from './tools/SymbolDefinitionTool';
+import { SymbolReferencesTool } from './tools/SymbolReferencesTool';
+import { SymbolSearchTool } from './tools/SymbolSearchTool';
+import { FileOutlineTool } from './tools/FileOutlineTool';
+import { DiagnosticsGetTool } from './tools/DiagnosticsGetTool';
+import { FileDeleteTool } from './tools/FileDeleteTool';
+import { FileRenameTool } from './tools/FileRenameTool';
+import { DirectoryCreateTool } from './tools/DirectoryCreateTool';
 
-export { FileReadTool, FileWriteTool, FileUpdateTool, CommandRunTool, ApplyDiffTool };
\ No newline at end of file
+export {
+    FileReadTool,
+    FileWriteTool,
+    FileUpdateTool,
+    CommandRunTool,
+    ApplyDiffTool,
+    ProcessReadTool,
+    ProcessWriteTool,
+    ProcessStopTool,
+    CommandLogReadTool,
+    FileSearchTool,
+    SymbolDefinitionTool,
+    SymbolReferencesTool,
+    SymbolSearchTool,
+    FileOutlineTool,
+    DiagnosticsGetTool,
+    FileDeleteTool,
+    FileRenameTool,
+    DirectoryCreateTool
+};
\ No newline at end of file
@@ -1,286 +1,155 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import * as fs from 'fs/promises';
 import { DiffView } from '../components/DiffView';
 import { UnsavedChangesDetector } from '../components/UnsavedChangesDetector';
+import { PathResolver } from '../components/PathResolver';
 import { Logger } from '../components/Logger';
+import { DiagnosticsCollector } from '../components/DiagnosticsCollector';
+import { CheckpointManager } from '../components/CheckpointManager';
+import { PendingChangesManager } from '../components/PendingChangesManager';
+import { SearchReplaceDiffStrategy } from '../components/SearchReplaceDiffStrategy';
+import { UnifiedDiffStrategy } from '../components/UnifiedDiffStrategy';
+import { DiffStrategy, formatFuzzyMatches, FuzzyMatch } from '../components/diffUtils';
 
-// Types
-type DiffResult = 
-  | { success: true; content: string }
-  | { success: false; error: string; details?: { 
-      similarity?: number;
-      threshold?: number;
-      matchedRange?: { start: number; end: number };
-      searchContent?: string;
-      bestMatch?: string;
-    }};
+type DiffFormat = 'search_replace' | 'unified';
 
-// Helper functions
-function levenshteinDistance(a: string, b: string): number {
-    const matrix: number[][] = [];
-
-    for (let i = 0; i <= a.length; i++) {
-        matrix[i] = [i];
-    }
-    for (let j = 0; j <= b.length; j++) {
-        matrix[0][j] = j;
-    }
-
-    for (let i = 1; i <= a.length; i++) {
-        for (let j = 1; j <= b.length; j++) {
-            if (a[i-1] === b[j-1]) {
-                matrix[i][j] = matrix[i-1][j-1];
-            } else {
-                matrix[i][j] = Math.min(
-                    matrix[i-1][j-1] + 1,
-                    matrix[i][j-1] + 1,
-                    matrix[i-1][j] + 1
-                );
-            }
-        }
-    }
-
-    return matrix[a.length][b.length];
-}
-
-function getSimilarity(original: string, search: string): number {
-    if (search === '') return 1;
-
-    const normalizeStr = (str: string) => str.replace(/\s+/g, ' ').trim();
-    const normalizedOriginal = normalizeStr(original);
-    const normalizedSearch = normalizeStr(search);
-    
-    if (normalizedOriginal === normalizedSearch) return 1;
-    
-    const distance = levenshteinDistance(normalizedOriginal, normalizedSearch);
-    const maxLength = Math.max(normalizedOriginal.length, normalizedSearch.length);
-    return 1 - (distance / maxLength);
-}
-
-function addLineNumbers(content: string, startLine: number = 1): string {
-    const lines = content.split('\n');
-    const maxLineNumberWidth = String(startLine + lines.length - 1).length;
-    return lines
-        .map((line, index) => {
-            const lineNumber = String(startLine + index).padStart(maxLineNumberWidth, ' ');
-            return `${lineNumber} | ${line}`;
-        })
-        .join('\n');
+interface FileDiff {
+    path: string;
+    diff: string;
+    format?: DiffFormat;
+    start_line?: number;
+    end_line?: number;
 }
 
-function everyLineHasLineNumbers(content: string): boolean {
-    const lines = content.split(/\r?\n/);
-    return lines.length > 0 && lines.every(line => /^\s*\d+\s+\|(?!\|)/.test(line));
+interface ApplyDiffInput {
+    path?: string;
+    diff?: string;
+    start_line?: number;
+    end_line?: number;
+    format?: DiffFormat;
+    files?: FileDiff[];
 }
 
-function stripLineNumbers(content: string): string {
-    const lines = content.split(/\r?\n/);
-    const processedLines = lines.map(line => {
-        const match = line.match(/^\s*\d+\s+\|(?!\|)\s?(.*)$/);
-        return match ? match[1] : line;
-    });
-    const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
-    return processedLines.join(lineEnding);
+interface PreparedDiff {
+    path: string;
+    fullPath: string;
+    baseContent: string;
+    content: string;
+    fuzzyMatches: FuzzyMatch[];
 }
 
-class SearchReplaceDiffStrategy {
-    private fuzzyThreshold: number;
-    private bufferLines: number;
-    private readonly BUFFER_LINES = 20;
+export class ApplyDiffTool implements vscode.LanguageModelTool<ApplyDiffInput> {
+    private diffViews: DiffView[] = [];
 
-    constructor(fuzzyThreshold?: number, bufferLines?: number) {
-        this.fuzzyThreshold = fuzzyThreshold ?? 1.0;
-        this.bufferLines = bufferLines ?? this.BUFFER_LINES;
+    private addLineNumbers(content: string): string {
+        const lines = content.split('\n');
+        const maxLineNumberWidth = String(lines.length).length;
+        return lines
+            .map((line, index) => {
+                const lineNumber = String(index + 1).padStart(maxLineNumberWidth, ' ');
+                return `${lineNumber} | ${line}`;
+            })
+            .join('\n');
     }
 
-    applyDiff(originalContent: string, diffContent: string, startLine?: number, endLine?: number): DiffResult {
-        const match = diffContent.match(/<<<<<<< SEARCH\n([\s\S]*?)\n?=======\n([\s\S]*?)\n?>>>>>>> REPLACE/);
-        if (!match) {
-            return {
-                success: false,
-                error: 'Invalid diff format - missing required SEARCH/REPLACE sections'
-            };
-        }
-
-        let [_, searchContent, replaceContent] = match;
-        const lineEnding = originalContent.includes('\r\n') ? '\r\n' : '\n';
-
-        if (everyLineHasLineNumbers(searchContent) && everyLineHasLineNumbers(replaceContent)) {
-            searchContent = stripLineNumbers(searchContent);
-            replaceContent = stripLineNumbers(replaceContent);
-        }
-
-        const searchLines = searchContent === '' ? [] : searchContent.split(/\r?\n/);
-        const replaceLines = replaceContent === '' ? [] : replaceContent.split(/\r?\n/);
-        const originalLines = originalContent.split(/\r?\n/);
-
-        if (searchLines.length === 0 && !startLine) {
-            return {
-                success: false,
-                error: 'Empty search content requires start_line to be specified'
-            };
+    private getFileDiffs(input: ApplyDiffInput): FileDiff[] {
+        const fileDiffs = [...(input.files ?? [])];
+        if (input.path && input.diff) {
+            fileDiffs.unshift({
+                path: input.path,
+                diff: input.diff,
+                start_line: input.start_line,
+                end_line: input.end_line,
+                format: input.format
+            });
+        } else if (input.diff && this.getFormat(input.diff, input.format) === 'unified') {
+            // A git-style patch names its files in the --- / +++ headers
+            const files = UnifiedDiffStrategy.splitFiles(input.diff)
+                .map(file => ({ ...file, format: 'unified' as const }));
+            fileDiffs.unshift(...files);
         }
+        return fileDiffs.flatMap(fileDiff => this.splitPatch(fileDiff));
+    }
 
-        if (searchLines.length === 0 && startLine && endLine && startLine !== endLine) {
-            return {
-                success: false,
-                error: `Empty search content requires start_line and end_line to be the same (got ${startLine}-${endLine})`
-            };
+    /**
+     * Splits a unified patch that covers several files into one diff per file,
+     * so each file's hunks go to the file its headers name rather than all to
+     * the given path.
+     */
+    private splitPatch(fileDiff: FileDiff): FileDiff[] {
+        if (this.getFormat(fileDiff.diff, fileDiff.format) !== 'unified') {
+            return [fileDiff];
         }
+        const files = UnifiedDiffStrategy.splitFiles(fileDiff.diff);
+        return files.length > 1
+            ? files.map(file => ({ ...file, format: 'unified' as const }))
+            : [fileDiff];
+    }
 
-        let matchIndex = -1;
-        let bestMatchScore = 0;
-        let bestMatchContent = "";
-        const searchChunk = searchLines.join('\n');
-
-        let searchStartIndex = 0;
-        let searchEndIndex = originalLines.length;
+    private getFormat(diff: string, format?: DiffFormat): DiffFormat {
+        return format ?? (UnifiedDiffStrategy.isUnifiedDiff(diff) ? 'unified' : 'search_replace');
+    }
 
-        if (startLine && endLine) {
-            const exactStartIndex = startLine - 1;
-            const exactEndIndex = endLine - 1;
+    private getStrategy(fileDiff: FileDiff): DiffStrategy {
+        // Read settings on every call so changes apply without reloading
+        const config = vscode.workspace.getConfiguration('cogent');
+        const fuzzyThreshold = config.get<number>('applyDiff.fuzzyThreshold', 1.0);
+        const bufferLines = config.get<number>('applyDiff.bufferLines', 20);
+        return this.getFormat(fileDiff.diff, fileDiff.format) === 'unified'
+            ? new UnifiedDiffStrategy(fuzzyThreshold, bufferLines)
+            : new SearchReplaceDiffStrategy(fuzzyThreshold, bufferLines);
+    }
 
-            if (exactStartIndex < 0 || exactEndIndex >= originalLines.length || exactStartIndex > exactEndIndex) {
-                return {
-                    success: false,
-                    error: `Line range ${startLine}-${endLine} is invalid (file has ${originalLines.length} lines)`
-                };
-            }
+    private describeFileDiffs(fileDiffs: FileDiff[]): string {
+        return fileDiffs
+            .map(fileDiff => fileDiff.start_line && fileDiff.end_line
+                ? `${fileDiff.path} (lines ${fileDiff.start_line}-${fileDiff.end_line})`
+                : fileDiff.path)
+            .join(', ');
+    }
 
-            const originalChunk = originalLines.slice(exactStartIndex, exactEndIndex + 1).join('\n');
-            const similarity = getSimilarity(originalChunk, searchChunk);
-            
-            if (similarity >= this.fuzzyThreshold) {
-                matchIndex = exactStartIndex;
-                bestMatchScore = similarity;
-                bestMatchContent = originalChunk;
-            } else {
-                searchStartIndex = Math.max(0, startLine - (this.bufferLines + 1));
-                searchEndIndex = Math.min(originalLines.length, endLine + this.bufferLines);
+    /**
+     * Computes the new content of every file without touching any editor.
+     * Diffs for the same path are applied in order on top of each other.
+     */
+    private async prepareDiffs(fileDiffs: FileDiff[]): Promise<PreparedDiff[]> {
+        const prepared = new Map<string, PreparedDiff>();
+        const failures: string[] = [];
+
+        for (const fileDiff of fileDiffs) {
+            const { fullPath, displayPath } = await PathResolver.resolve(fileDiff.path);
+            let entry = prepared.get(fullPath);
+            if (!entry) {
+                // Use editor content if there are unsaved changes, otherwise use disk content
+                const unsavedChanges = await UnsavedChangesDetector.detectChanges(fullPath);
+                const baseContent = unsavedChanges.editorContent || await fs.readFile(fullPath, 'utf-8');
+                entry = { path: displayPath, fullPath, baseContent, content: baseContent, fuzzyMatches: [] };
+                prepared.set(fullPath, entry);
             }
-        }
-
-        // Middle-out search if no exact match found
-        if (matchIndex === -1) {
-            const midPoint = Math.floor((searchStartIndex + searchEndIndex) / 2);
-            let leftIndex = midPoint;
-            let rightIndex = midPoint + 1;
 
-            while (leftIndex >= searchStartIndex || rightIndex <= searchEndIndex - searchLines.length) {
-                if (leftIndex >= searchStartIndex) {
-                    const chunk = originalLines.slice(leftIndex, leftIndex + searchLines.length).join('\n');
-                    const similarity = getSimilarity(chunk, searchChunk);
-                    if (similarity > bestMatchScore) {
-                        bestMatchScore = similarity;
-                        matchIndex = leftIndex;
-                        bestMatchContent = chunk;
-                    }
-                    leftIndex--;
-                }
+            const result = this.getStrategy(fileDiff).applyDiff(
+                entry.content,
+                fileDiff.diff,
+                fileDiff.start_line,
+                fileDiff.end_line
+            );
 
-                if (rightIndex <= searchEndIndex - searchLines.length) {
-                    const chunk = originalLines.slice(rightIndex, rightIndex + searchLines.length).join('\n');
-                    const similarity = getSimilarity(chunk, searchChunk);
-                    if (similarity > bestMatchScore) {
-                        bestMatchScore = similarity;
-                        matchIndex = rightIndex;
-                        bestMatchContent = chunk;
-                    }
-                    rightIndex++;
-                }
+            if (!result.success) {
+                failures.push(`${fileDiff.path}:\n${result.error}`);
+                continue;
             }
+            entry.content = result.content;
+            entry.fuzzyMatches.push(...(result.fuzzyMatches ?? []));
         }
 
-        if (matchIndex === -1 || bestMatchScore < this.fuzzyThreshold) {
-            const searchChunk = searchLines.join('\n');
-            const originalContentSection = startLine !== undefined && endLine !== undefined
-                ? `\n\nOriginal Content:\n${addLineNumbers(
-                    originalLines.slice(
-                        Math.max(0, startLine - 1 - this.bufferLines),
-                        Math.min(originalLines.length, endLine + this.bufferLines)
-                    ).join('\n'),
-                    Math.max(1, startLine - this.bufferLines)
-                )}`
-                : `\n\nOriginal Content:\n${addLineNumbers(originalLines.join('\n'))}`;
-
-            const bestMatchSection = bestMatchContent
-                ? `\n\nBest Match Found:\n${addLineNumbers(bestMatchContent, matchIndex + 1)}`
-                : `\n\nBest Match Found:\n(no match)`;
-
-            const lineRange = startLine || endLine ?
-                ` at ${startLine ? `start: ${startLine}` : 'start'} to ${endLine ? `end: ${endLine}` : 'end'}` : '';
-                
-            return {
-                success: false,
-                error: `No sufficiently similar match found${lineRange} (${Math.floor(bestMatchScore * 100)}% similar, needs ${Math.floor(this.fuzzyThreshold * 100)}%)\n\nDebug Info:\n- Similarity Score: ${Math.floor(bestMatchScore * 100)}%\n- Required Threshold: ${Math.floor(this.fuzzyThreshold * 100)}%\n- Search Range: ${startLine && endLine ? `lines ${startLine}-${endLine}` : 'start to end'}\n\nSearch Content:\n${addLineNumbers(searchChunk)}${bestMatchSection}${originalContentSection}`
-            };
+        if (failures.length > 0) {
+            const summary = fileDiffs.length > 1
+                ? `No files were changed because ${failures.length} of ${fileDiffs.length} diffs failed.\n\n`
+                : '';
+            throw new Error(summary + failures.join('\n\n'));
         }
 
-        const matchedLines = originalLines.slice(matchIndex, matchIndex + searchLines.length);
-        const originalIndents = matchedLines.map(line => {
-            const match = line.match(/^[\t ]*/);
-            return match ? match[0] : '';
-        });
-
-        const searchIndents = searchLines.map(line => {
-            const match = line.match(/^[\t ]*/);
-            return match ? match[0] : '';
-        });
-
-        const indentedReplaceLines = replaceLines.map((line, i) => {
-            const matchedIndent = originalIndents[0] || '';
-            const currentIndentMatch = line.match(/^[\t ]*/);
-            const currentIndent = currentIndentMatch ? currentIndentMatch[0] : '';
-            const searchBaseIndent = searchIndents[0] || '';
-            
-            const searchBaseLevel = searchBaseIndent.length;
-            const currentLevel = currentIndent.length;
-            const relativeLevel = currentLevel - searchBaseLevel;
-            
-            const finalIndent = relativeLevel < 0
-                ? matchedIndent.slice(0, Math.max(0, matchedIndent.length + relativeLevel))
-                : matchedIndent + currentIndent.slice(searchBaseLevel);
-            
-            return finalIndent + line.trim();
-        });
-
-        const beforeMatch = originalLines.slice(0, matchIndex);
-        const afterMatch = originalLines.slice(matchIndex + searchLines.length);
-        const finalContent = [...beforeMatch, ...indentedReplaceLines, ...afterMatch].join(lineEnding);
-
-        return {
-            success: true,
-            content: finalContent
-        };
-    }
-}
-
-interface ApplyDiffInput {
-    path: string;
-    diff: string;
-    start_line: number;
-    end_line: number;
-}
-
-export class ApplyDiffTool implements vscode.LanguageModelTool<ApplyDiffInput> {
-    private diffStrategy: SearchReplaceDiffStrategy;
-
-    constructor() {
-        this.diffStrategy = new SearchReplaceDiffStrategy();
-    }
-
-    private diffView?: DiffView;
-
-    private addLineNumbers(content: string): string {
-        const lines = content.split('\n');
-        const maxLineNumberWidth = String(lines.length).length;
-        return lines
-            .map((line, index) => {
-                const lineNumber = String(index + 1).padStart(maxLineNumberWidth, ' ');
-                return `${lineNumber} | ${line}`;
-            })
-            .join('\n');
+        return [...prepared.values()];
     }
 
     async invoke(
@@ -288,56 +157,64 @@ export class ApplyDiffTool implements vscode.LanguageModelTool<ApplyDiffInput> {
         _token: vscode.CancellationToken
     ): Promise<vscode.LanguageModelToolResult> {
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                throw new Error('No workspace folder found');
+            const fileDiffs = this.getFileDiffs(options.input);
+            if (fileDiffs.length === 0) {
+                throw new Error('Either path and diff, a unified diff with file headers, or files must be provided');
             }
 
-            const fullPath = path.join(workspaceFolder.uri.fsPath, options.input.path);
-            
-            // First check for any unsaved changes
-            const unsavedChanges = await UnsavedChangesDetector.detectChanges(options.input.path);
-            // Use editor content if there are unsaved changes, otherwise use disk content
-            const baseContent = unsavedChanges.editorContent || await fs.readFile(fullPath, 'utf-8');
-
-            const result = this.diffStrategy.applyDiff(
-                baseContent, // Apply diff to current content, not disk content
-                options.input.diff,
-                options.input.start_line,
-                options.input.end_line
-            );
-
-            if (!result.success) {
-                throw new Error(result.error);
+            const preparedDiffs = await this.prepareDiffs(fileDiffs);
+            for (const prepared of preparedDiffs) {
+                await CheckpointManager.recordBefore(prepared.fullPath);
+                await PendingChangesManager.getInstance().track(prepared.fullPath);
             }
+            const diagnosticsBefore = DiagnosticsCollector.snapshot();
+
+            const responses: string[] = [];
+            for (const prepared of preparedDiffs) {
+                // Show diff view with current content as base
+                const diffView = new DiffView(prepared.fullPath, prepared.baseContent);
+                this.diffViews.push(diffView);
+                await diffView.show();
+
+                await diffView.update(prepared.content, 0);
+
+                // Get the latest content with unsaved changes
+                const unsavedResult = await UnsavedChangesDetector.detectChanges(prepared.fullPath);
+                const currentContent = unsavedResult.editorContent || prepared.content;
+
+                const fuzzyMatchSection = prepared.fuzzyMatches.length
+                    ? ['', 'Warning: fuzzy matches were used (line numbers before the edit), verify these lines:', formatFuzzyMatches(prepared.fuzzyMatches)]
+                    : [];
+                if (prepared.fuzzyMatches.length) {
+                    Logger.getInstance().warn(`Fuzzy match applied to ${prepared.path}:\n${formatFuzzyMatches(prepared.fuzzyMatches)}`);
+                }
 
-            // Show diff view with current content as base
-            this.diffView = new DiffView(fullPath, baseContent);
-            await this.diffView.show();
-            
-            await this.diffView.update(result.content, 0);
+                // Create response with current file state
+                responses.push([
+                    `Changes shown in diff view for ${prepared.path}.`,
+                    ...fuzzyMatchSection,
+                    '',
+                    'Current file state:',
+                    '=' .repeat(80),
+                    this.addLineNumbers(currentContent)
+                ].join('\n'));
+            }
+            this.diffViews = [];
 
-            // Get the latest content with unsaved changes
-            const unsavedResult = await UnsavedChangesDetector.detectChanges(options.input.path);
-            const currentContent = unsavedResult.editorContent || result.content;
-            
-            // Create response with current file state
-            const response = [
-                `Changes shown in diff view for ${options.input.path}.`,
-                '',
-                'Current file state:',
-                '=' .repeat(80),
-                this.addLineNumbers(currentContent)
-            ].join('\n');
+            responses.push(await DiagnosticsCollector.reportNewProblems(
+                diagnosticsBefore,
+                preparedDiffs.map(prepared => vscode.Uri.file(prepared.fullPath))
+            ));
 
             return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(response)
+                new vscode.LanguageModelTextPart(responses.join('\n\n'))
             ]);
 
         } catch (error) {
-            if (this.diffView) {
-                await this.diffView.close();
+            for (const diffView of this.diffViews) {
+                await diffView.close();
             }
+            this.diffViews = [];
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             const logger = Logger.getInstance();
             logger.error(`Failed to apply diff: ${errorMessage}`);
@@ -352,23 +229,22 @@ export class ApplyDiffTool implements vscode.LanguageModelTool<ApplyDiffInput> {
         _token: vscode.CancellationToken
     ) {
         const autoConfirm = vscode.workspace.getConfiguration('cogent').get('autoConfirmTools.applyDiff', false);
+        const targets = this.describeFileDiffs(this.getFileDiffs(options.input));
         
         if (autoConfirm) {
             return {
-                invocationMessage: `Applying diff to ${options.input.path} (lines ${options.input.start_line}-${options.input.end_line})`
+                invocationMessage: `Applying diff to ${targets}`
             };
         }
 
         return {
-            invocationMessage: `Applying diff to ${options.input.path} (lines ${options.input.start_line}-${options.input.end_line})`,
+            invocationMessage: `Applying diff to ${targets}`,
             confirmationMessages: {
                 title: 'Apply Diff',
                 message: new vscode.MarkdownString(
-                    `Apply diff to ${options.input.path} between lines ${options.input.start_line}-${options.input.end_line}?`
+                    `Apply diff to ${targets}?`
                 )
             }
         };
     }
 }
-
-
@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { CommandLog } from '../components/CommandLog';
+
+interface ICommandLogReadParams {
+    log_id: string;
+    start_line?: number;
+    line_count?: number;
+}
+
+const DEFAULT_LINE_COUNT = 200;
+const MAX_LINE_COUNT = 1000;
+const MAX_LINE_CHARS = 1000;
+
+export class CommandLogReadTool implements vscode.LanguageModelTool<ICommandLogReadParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<ICommandLogReadParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const { log_id, start_line = 1, line_count = DEFAULT_LINE_COUNT } = options.input;
+            const page = await CommandLog.read(log_id, start_line, Math.min(Math.max(1, line_count), MAX_LINE_COUNT));
+
+            // Drop lines from the end of the page until it fits the token budget
+            const budget = options.tokenizationOptions?.tokenBudget;
+            let lines = page.lines.map(line => line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}… [+${line.length - MAX_LINE_CHARS} chars]` : line);
+            let text = this.formatPage(page.logId, page.startLine, lines, page.totalLines);
+            while (budget && lines.length > 1 && await options.tokenizationOptions!.countTokens(text) > budget) {
+                lines = lines.slice(0, Math.floor(lines.length / 2));
+                text = this.formatPage(page.logId, page.startLine, lines, page.totalLines);
+            }
+
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(text)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error reading command log: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    private formatPage(logId: string, startLine: number, lines: string[], totalLines: number): string {
+        const endLine = startLine + lines.length - 1;
+        const width = String(endLine).length;
+        const numbered = lines.map((line, i) => `${String(startLine + i).padStart(width, ' ')} | ${line}`);
+        const next = endLine < totalLines
+            ? `Continue with start_line ${endLine + 1}.`
+            : 'End of log.';
+        return `Log ${logId}, lines ${startLine}-${endLine} of ${totalLines}:\n${numbered.join('\n')}\n${next}`;
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<ICommandLogReadParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Reading command log ${options.input.log_id}`
+        };
+    }
+}
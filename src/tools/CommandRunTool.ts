@@ -1,148 +1,230 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as os from 'os';
+import * as fs from 'fs/promises';
 import { Logger } from '../components/Logger';
+import { CommandPolicy } from '../components/CommandPolicy';
+import { CommandExecutor, CommandResult } from '../components/CommandExecutor';
+import { ShellResolver } from '../components/ShellResolver';
+import { BackgroundProcessManager, ProcessOutput } from '../components/BackgroundProcessManager';
+import { PathResolver } from '../components/PathResolver';
 
 interface ICommandParams {
     command: string;
+    cwd?: string;
+    background?: boolean;
+    ready_pattern?: string;
+    ready_delay?: number;
 }
 
-// Utility function to load node-pty
-function loadNodePty() {
-    try {
-        //@ts-ignore
-        const requireFunc = typeof __webpack_require__ === "function" ? __non_webpack_require__ : require;
-        const moduleName = path.join(vscode.env.appRoot, "node_modules", "node-pty");
-        return requireFunc(moduleName);
-    } catch (error) {
-        const logger = Logger.getInstance();
-        logger.error(`Failed to load node-pty: ${error}`);
-        return null;
+const DEFAULT_READY_DELAY_SECONDS = 3;
+
+const toTerminal = (text: string) => text.replace(/\r?\n/g, '\r\n');
+
+/**
+ * The terminal that mirrors foreground commands so the user can follow along
+ * and answer prompts. One terminal is shared by every command until the user
+ * closes it; typed input goes to the command that started last.
+ */
+class CommandTerminal {
+    private static current?: CommandTerminal;
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly terminal: vscode.Terminal;
+    private opened = false;
+    private pending = '';
+    stdin: NodeJS.WritableStream | null = null;
+
+    static get(): CommandTerminal {
+        CommandTerminal.current ??= new CommandTerminal();
+        return CommandTerminal.current;
     }
-}
 
-export class CommandRunTool implements vscode.LanguageModelTool<ICommandParams> {
-    private static terminal: vscode.Terminal | undefined;
-    private static nodePty = loadNodePty();
-
-    private filterPowerShellHeader(text: string): string {
-        if (os.platform() === 'win32') {
-            const lines = text.split('\n');
-            return lines
-                .filter(line => !line.startsWith('Copyright (C) Microsoft Corporation'))
-                .filter(line => !line.startsWith('Install the latest PowerShell'))
-                .join('\n');
+    private constructor() {
+        this.terminal = vscode.window.createTerminal({
+            name: 'Cogent Command',
+            pty: {
+                onDidWrite: this.writeEmitter.event,
+                open: () => {
+                    // Output written before the pty opened would otherwise be lost
+                    this.opened = true;
+                    this.writeEmitter.fire(this.pending);
+                    this.pending = '';
+                },
+                close: () => {
+                    if (CommandTerminal.current === this) {
+                        CommandTerminal.current = undefined;
+                    }
+                    this.writeEmitter.dispose();
+                },
+                handleInput: (data: string) => {
+                    this.write(data.replace(/\r/g, '\n'));
+                    this.stdin?.write(data.replace(/\r/g, '\n'));
+                }
+            }
+        });
+    }
+
+    write(text: string): void {
+        if (this.opened) {
+            this.writeEmitter.fire(toTerminal(text));
+        } else {
+            this.pending += toTerminal(text);
         }
-        return text;
     }
 
+    show(): void {
+        this.terminal.show(true);
+    }
+}
+
+export class CommandRunTool implements vscode.LanguageModelTool<ICommandParams> {
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<ICommandParams>,
         token: vscode.CancellationToken
     ): Promise<vscode.LanguageModelToolResult> {
-        const stripAnsi = (str: string) => {
-            return str
-                .replace(/[\u001b\u009b][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g, '')
-                .replace(/\u001b\].*?\u0007/g, ''); // Remove PowerShell OSC sequences
-        };
-        return new Promise((resolve, reject) => {
-            if (!CommandRunTool.nodePty) {
-                return resolve(new vscode.LanguageModelToolResult([
-                    new vscode.LanguageModelTextPart('Error: node-pty not available')
-                ]));
-            }
+        const policy = await CommandPolicy.evaluate(options.input.command);
+        if (policy.action === 'deny') {
+            const message = `Command denied by policy:\n${CommandPolicy.describe(policy)}`;
+            Logger.getInstance().warn(message);
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`${message}\nDo not retry this command in another form; ask the user to run it or change the policy.`)
+            ]);
+        }
 
-            const shell = os.platform() === 'win32' ? 'powershell.exe' : 'zsh';
-            let output = '';
-            let writeEmitter = new vscode.EventEmitter<string>();
+        // Get configured timeout (in seconds) and convert to milliseconds
+        const timeoutSeconds = vscode.workspace.getConfiguration('cogent').get('commandTimeout', 45);
+        let cwd: string;
+        try {
+            cwd = await this.resolveCwd(options.input.cwd);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error resolving cwd ${options.input.cwd}: ${(err as Error)?.message}`)
+            ]);
+        }
 
+        if (options.input.background) {
+            return this.startBackground(options, cwd, timeoutSeconds, token);
+        }
 
-            const ptyProcess = CommandRunTool.nodePty.spawn(shell, [], {
-                name: 'xterm-color',
-                cols: 80,
-                rows: 30,
-                cwd: vscode.workspace.workspaceFolders?.[0].uri.fsPath || process.cwd(),
-                env: process.env
-            });
+        const terminal = CommandTerminal.get();
+        terminal.write(`> ${options.input.command}\n`);
+        terminal.show();
 
-            ptyProcess.onData((data: string) => {
-                const filteredData = stripAnsi(this.filterPowerShellHeader(data));
-                output += filteredData;
-                writeEmitter.fire(data);
-            });
+        const running = CommandExecutor.start(options.input.command, {
+            shell: await ShellResolver.resolve(),
+            cwd,
+            timeoutMs: timeoutSeconds * 1000,
+            token,
+            onOutput: (data) => terminal.write(data)
+        });
+        terminal.stdin = running.process.stdin;
+
+        let result: CommandResult;
+        try {
+            result = await running.result;
+        } catch {
+            // Only rejects when the request is cancelled, after the command is killed
+            terminal.write('\n[Cancelled]\n\n');
+            Logger.getInstance().info(`Command "${options.input.command}": cancelled`);
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart('Command cancelled by the user before it finished')
+            ]);
+        } finally {
+            if (terminal.stdin === running.process.stdin) {
+                terminal.stdin = null;
+            }
+        }
+        const summary = result.timedOut
+            ? `Timed out after ${timeoutSeconds} seconds`
+            : `Exited with ${result.exitCode ?? result.signal ?? result.error}`;
+        terminal.write(`\n[${summary} in ${(result.durationMs / 1000).toFixed(2)}s]\n\n`);
+        Logger.getInstance().info(`Command "${options.input.command}": ${summary}`);
+
+        return new vscode.LanguageModelToolResult([
+            new vscode.LanguageModelTextPart(await CommandExecutor.formatResultWithin(result, options.tokenizationOptions))
+        ]);
+    }
 
-            const ptyTerminal = vscode.window.createTerminal({
-                name: 'Cogent Command',
-                pty: {
-                    onDidWrite: writeEmitter.event,
-                    open: () => {
-                        ptyProcess.write(`${options.input.command}\r`);
-                        // Add exit command after the main command
-                        setTimeout(() => {
-                            ptyProcess.write('\rexit\r');
-                        }, 100);
-                    },
-                    close: () => {
-                        ptyProcess.kill();
-                        writeEmitter.dispose();
-                    },
-                    handleInput: (data: string) => {
-                        ptyProcess.write(data);
-                    },
-                    setDimensions: (dimensions: vscode.TerminalDimensions) => {
-                        ptyProcess.resize(dimensions.columns, dimensions.rows);
-                    }
-                }
-            });
+    /**
+     * The directory to run in: the given workspace directory (a folder's name
+     * selects that folder in a multi-root workspace), otherwise the first
+     * workspace folder.
+     */
+    private async resolveCwd(inputCwd: string | undefined): Promise<string> {
+        if (!inputCwd?.trim()) {
+            return vscode.workspace.workspaceFolders?.[0].uri.fsPath || process.cwd();
+        }
+        const { fullPath } = await PathResolver.resolve(inputCwd);
+        if (!(await fs.stat(fullPath)).isDirectory()) {
+            throw new Error(`${inputCwd} is not a directory`);
+        }
+        return fullPath;
+    }
 
-            // Get configured timeout (in seconds) and convert to milliseconds
-            const timeoutSeconds = vscode.workspace.getConfiguration('cogent').get('commandTimeout', 30);
-            const timeoutMs = timeoutSeconds * 1000;
-
-            let exitTimeout = setTimeout(() => {
-                ptyProcess.kill();
-                resolve(new vscode.LanguageModelToolResult([
-                    new vscode.LanguageModelTextPart(
-                        stripAnsi(output) || `Command timed out after ${timeoutSeconds} seconds`
-                    )
-                ]));
-            }, timeoutMs);
-
-            token.onCancellationRequested(() => {
-                clearTimeout(exitTimeout);
-                ptyProcess.kill();
-                reject(new Error('Command cancelled'));
-            });
+    private async startBackground(
+        options: vscode.LanguageModelToolInvocationOptions<ICommandParams>,
+        cwd: string,
+        timeoutSeconds: number,
+        token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        const { input } = options;
+        let readyPattern: RegExp | undefined;
+        try {
+            readyPattern = input.ready_pattern ? new RegExp(input.ready_pattern) : undefined;
+        } catch (error) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Invalid ready_pattern: ${(error as Error).message}`)
+            ]);
+        }
 
-            ptyTerminal.show();
-            
-            // Listen for process exit
-            ptyProcess.onExit(() => {
-                clearTimeout(exitTimeout);
-                resolve(new vscode.LanguageModelToolResult([
-                    new vscode.LanguageModelTextPart(stripAnsi(output) || 'Command completed')
-                ]));
+        const shell = await ShellResolver.resolve();
+        let result: ProcessOutput;
+        try {
+            result = await BackgroundProcessManager.getInstance().start(input.command, {
+                shell,
+                cwd,
+                readyPattern,
+                readyDelayMs: (input.ready_delay ?? DEFAULT_READY_DELAY_SECONDS) * 1000,
+                readyTimeoutMs: timeoutSeconds * 1000,
+                token
             });
-        });
+        } catch {
+            // Only rejects when the request is cancelled, after the process is stopped
+            Logger.getInstance().info(`Background command "${input.command}": cancelled`);
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart('Command cancelled by the user before it was ready')
+            ]);
+        }
+
+        return new vscode.LanguageModelToolResult([
+            new vscode.LanguageModelTextPart(await BackgroundProcessManager.formatOutputWithin(result, options.tokenizationOptions))
+        ]);
     }
 
     async prepareInvocation(
         options: vscode.LanguageModelToolInvocationPrepareOptions<ICommandParams>,
         _token: vscode.CancellationToken
     ) {
-        const autoConfirm = vscode.workspace.getConfiguration('cogent').get('autoConfirmTools.runCommand', false);
-        
-        if (autoConfirm) {
+        const policy = await CommandPolicy.evaluate(options.input.command);
+        const policySummary = CommandPolicy.describe(policy);
+        const verb = options.input.background ? 'Starting background process' : 'Executing command';
+        const location = options.input.cwd ? ` in ${options.input.cwd}` : '';
+
+        if (policy.action === 'deny') {
+            return {
+                invocationMessage: new vscode.MarkdownString(`Blocked command: \`${options.input.command}\`\n\n${policySummary}`)
+            };
+        }
+
+        if (policy.action === 'allow') {
             return {
-                invocationMessage: `Executing command: ${options.input.command}`
+                invocationMessage: new vscode.MarkdownString(`${verb}: \`${options.input.command}\`${location}\n\n${policySummary}`)
             };
         }
 
         return {
-            invocationMessage: `Executing command: ${options.input.command}`,
+            invocationMessage: `${verb}: ${options.input.command}${location}`,
             confirmationMessages: {
-                title: 'Run Command',
-                message: new vscode.MarkdownString(`Execute command: \`${options.input.command}\`?`)
+                title: options.input.background ? 'Start Background Process' : 'Run Command',
+                message: new vscode.MarkdownString(`${options.input.background ? 'Start in the background' : 'Execute command'}: \`${options.input.command}\`${location}?\n\n${policySummary}`)
             }
         };
     }
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { DiagnosticsCollector } from '../components/DiagnosticsCollector';
+import { openWorkspaceDocument } from '../components/codeNavigation';
+
+type SeverityFilter = 'error' | 'warning' | 'all';
+
+interface IGetDiagnosticsParams {
+    paths?: string[];
+    severity?: SeverityFilter;
+}
+
+const MIN_SEVERITY: Record<SeverityFilter, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    all: vscode.DiagnosticSeverity.Hint
+};
+
+export class DiagnosticsGetTool implements vscode.LanguageModelTool<IGetDiagnosticsParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IGetDiagnosticsParams>,
+        token: vscode.CancellationToken
+    ) {
+        try {
+            const minSeverity = MIN_SEVERITY[options.input.severity ?? 'warning'] ?? vscode.DiagnosticSeverity.Warning;
+
+            let uris: vscode.Uri[] | undefined;
+            if (options.input.paths?.length) {
+                // Most language servers only analyze files that are open
+                const documents = await Promise.all(options.input.paths.map(path => openWorkspaceDocument(path)));
+                uris = documents.map(document => document.uri);
+                await DiagnosticsCollector.waitForSettle(uris, token);
+            }
+
+            const files = DiagnosticsCollector.get(uris, minSeverity);
+            if (files.length === 0) {
+                const scope = uris ? options.input.paths!.join(', ') : 'the workspace';
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(`No ${options.input.severity === 'error' ? 'errors' : 'problems'} reported for ${scope}.`)
+                ]);
+            }
+
+            const count = files.reduce((total, file) => total + file.diagnostics.length, 0);
+            const note = uris ? '' : '\nOnly files the language servers have analyzed (usually open files) are included.';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`${count} problems in ${files.length} files:${note}\n\n${await DiagnosticsCollector.format(files)}`)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error getting diagnostics: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IGetDiagnosticsParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: options.input.paths?.length
+                ? `Getting diagnostics for ${JSON.stringify(options.input.paths)}`
+                : 'Getting workspace diagnostics'
+        };
+    }
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { PathResolver } from '../components/PathResolver';
+import { CheckpointManager } from '../components/CheckpointManager';
+
+interface ICreateDirectoryParams {
+    path: string;
+}
+
+export class DirectoryCreateTool implements vscode.LanguageModelTool<ICreateDirectoryParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<ICreateDirectoryParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const { fullPath, displayPath } = await PathResolver.resolve(options.input.path);
+            await CheckpointManager.recordBefore(fullPath, { directory: true });
+            // WorkspaceEdit can only create files, so empty directories go through the file system API.
+            // Like mkdir -p, missing parents are created and an existing directory is not an error
+            await vscode.workspace.fs.createDirectory(vscode.Uri.file(fullPath));
+
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Directory ${displayPath} is ready`)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error creating directory ${options.input.path}: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<ICreateDirectoryParams>,
+        _token: vscode.CancellationToken
+    ) {
+        const autoConfirm = vscode.workspace.getConfiguration('cogent').get('autoConfirmTools.createDirectory', false);
+
+        if (autoConfirm) {
+            return {
+                invocationMessage: `Creating directory ${options.input.path}`
+            };
+        }
+
+        return {
+            invocationMessage: `Creating directory ${options.input.path}`,
+            confirmationMessages: {
+                title: 'Create Directory',
+                message: new vscode.MarkdownString(`Create the directory ${options.input.path}?`)
+            }
+        };
+    }
+}
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import { PathResolver } from '../components/PathResolver';
+import { CheckpointManager } from '../components/CheckpointManager';
+
+interface IDeleteFileParams {
+    path: string;
+    recursive?: boolean;
+}
+
+export class FileDeleteTool implements vscode.LanguageModelTool<IDeleteFileParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IDeleteFileParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const resolved = await PathResolver.resolve(options.input.path);
+            const { fullPath, relativePath, displayPath } = resolved;
+            if (!relativePath) {
+                throw new Error('The workspace folder itself cannot be deleted');
+            }
+
+            const stat = await fs.stat(fullPath);
+            if (stat.isDirectory()) {
+                if (!options.input.recursive) {
+                    throw new Error(`${options.input.path} is a directory; set recursive to delete it with its contents`);
+                }
+                const denied = await PathResolver.findDeniedDescendant(resolved);
+                if (denied) {
+                    throw new Error(`${options.input.path} contains ${denied}`);
+                }
+            }
+
+            await CheckpointManager.recordBefore(fullPath);
+            const edit = new vscode.WorkspaceEdit();
+            edit.deleteFile(vscode.Uri.file(fullPath), { recursive: stat.isDirectory(), ignoreIfNotExists: false });
+            if (!await vscode.workspace.applyEdit(edit)) {
+                throw new Error('VS Code refused the edit');
+            }
+
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Deleted ${stat.isDirectory() ? 'directory' : 'file'} ${displayPath}`)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error deleting ${options.input.path}: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IDeleteFileParams>,
+        _token: vscode.CancellationToken
+    ) {
+        const autoConfirm = vscode.workspace.getConfiguration('cogent').get('autoConfirmTools.deleteFile', false);
+
+        if (autoConfirm) {
+            return {
+                invocationMessage: `Deleting ${options.input.path}`
+            };
+        }
+
+        return {
+            invocationMessage: `Deleting ${options.input.path}`,
+            confirmationMessages: {
+                title: 'Delete File',
+                message: new vscode.MarkdownString(
+                    options.input.recursive
+                        ? `Delete ${options.input.path} and everything in it?`
+                        : `Delete ${options.input.path}?`
+                )
+            }
+        };
+    }
+}
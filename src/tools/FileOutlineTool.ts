@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { formatRange, openWorkspaceDocument, symbolKindName } from '../components/codeNavigation';
+
+interface IFileOutlineParams {
+    path: string;
+}
+
+// Local variables and the like make outlines long without helping navigation
+const HIDDEN_KINDS = new Set([vscode.SymbolKind.Variable, vscode.SymbolKind.Constant, vscode.SymbolKind.TypeParameter]);
+
+export class FileOutlineTool implements vscode.LanguageModelTool<IFileOutlineParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IFileOutlineParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const document = await openWorkspaceDocument(options.input.path);
+            const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+                'vscode.executeDocumentSymbolProvider', document.uri
+            ) ?? [];
+
+            if (symbols.length === 0) {
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(
+                        `No symbols found in ${options.input.path}. The language server may not support this file or may still be starting.`
+                    )
+                ]);
+            }
+
+            const outline = 'children' in symbols[0]
+                ? this.formatTree(symbols as vscode.DocumentSymbol[], 0)
+                : this.formatFlat(symbols as vscode.SymbolInformation[]);
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Outline of ${options.input.path} (${document.lineCount} lines):\n${outline.join('\n')}`)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error getting outline: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    private formatTree(symbols: vscode.DocumentSymbol[], depth: number): string[] {
+        return [...symbols]
+            .sort((a, b) => a.range.start.compareTo(b.range.start))
+            .flatMap(symbol => {
+                // Top-level variables are often the file's main exports, so only nested ones are hidden
+                if (depth > 0 && HIDDEN_KINDS.has(symbol.kind)) {
+                    return [];
+                }
+                const detail = symbol.detail ? ` ${symbol.detail}` : '';
+                return [
+                    `${'  '.repeat(depth)}- ${symbol.name}${detail} (${symbolKindName(symbol.kind)}, ${formatRange(symbol.range)})`,
+                    ...this.formatTree(symbol.children, depth + 1)
+                ];
+            });
+    }
+
+    private formatFlat(symbols: vscode.SymbolInformation[]): string[] {
+        return [...symbols]
+            .sort((a, b) => a.location.range.start.compareTo(b.location.range.start))
+            .map(symbol => {
+                const container = symbol.containerName ? ` in ${symbol.containerName}` : '';
+                return `- ${symbol.name} (${symbolKindName(symbol.kind)}${container}, ${formatRange(symbol.location.range)})`;
+            });
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IFileOutlineParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Getting outline of ${options.input.path}`
+        };
+    }
+}
@@ -1,23 +1,115 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
-import * as path from 'path';
+import { PathResolver } from '../components/PathResolver';
+import { addLineNumbers } from '../components/diffUtils';
 
 interface IFileOperationParams {
     path?: string;
     paths?: string[];
+    files?: FileReadRequest[];
     content?: string;
 }
 
+interface FileReadRequest {
+    path: string;
+    start_line?: number;
+    end_line?: number;
+}
+
+interface FileSection {
+    path: string;
+    lines: string[];
+    /** 1-based range to show */
+    startLine: number;
+    endLine: number;
+    error?: string;
+}
+
+// Characters per token assumed when sizing a page before counting exactly
+const CHARS_PER_TOKEN = 3;
+const MAX_FIT_ATTEMPTS = 4;
+
 export class FileReadTool implements vscode.LanguageModelTool<IFileOperationParams> {
-    private addLineNumbers(content: string, startLine: number = 1): string {
-        const lines = content.split('\n');
-        const maxLineNumberWidth = String(startLine + lines.length - 1).length;
-        return lines
-            .map((line, index) => {
-                const lineNumber = String(startLine + index).padStart(maxLineNumberWidth, ' ');
-                return `${lineNumber} | ${line}`;
-            })
-            .join('\n');
+    private getRequests(input: IFileOperationParams): FileReadRequest[] {
+        return [
+            ...(input.paths || (input.path ? [input.path] : [])).map(path => ({ path })),
+            ...(input.files ?? [])
+        ];
+    }
+
+    private async readSection(request: FileReadRequest): Promise<FileSection> {
+        try {
+            const { fullPath } = await PathResolver.resolve(request.path);
+            const lines = (await fs.readFile(fullPath, 'utf-8')).split('\n');
+            const startLine = Math.min(Math.max(1, request.start_line ?? 1), lines.length);
+            const endLine = Math.min(Math.max(startLine, request.end_line ?? lines.length), lines.length);
+            return { path: request.path, lines, startLine, endLine };
+        } catch (err) {
+            return { path: request.path, lines: [], startLine: 0, endLine: 0, error: (err as Error)?.message };
+        }
+    }
+
+    private formatSection(section: FileSection): string {
+        if (section.error) {
+            return `Error reading ${section.path}: ${section.error}`;
+        }
+        const total = section.lines.length;
+        const partial = section.startLine > 1 || section.endLine < total;
+        const header = [
+            '=' .repeat(80),
+            `📝 File: ${section.path}${partial ? ` (showing lines ${section.startLine}-${section.endLine} of ${total})` : ''}`,
+            '=' .repeat(80)
+        ];
+        const body = addLineNumbers(section.lines.slice(section.startLine - 1, section.endLine).join('\n'), section.startLine);
+        const footer = section.endLine < total
+            ? [`... ${total - section.endLine} more lines. To read more, call cogent_readFile with start_line ${section.endLine + 1} for ${section.path}.`]
+            : [];
+        return [...header, body, ...footer].join('\n');
+    }
+
+    /**
+     * Shortens the requested ranges until the result fits the token budget,
+     * sharing the budget evenly between files and keeping short files whole.
+     */
+    private async fitToBudget(sections: FileSection[], tokenization: vscode.LanguageModelToolTokenizationOptions): Promise<string> {
+        const render = () => sections.map(section => this.formatSection(section)).join('\n\n');
+        let text = render();
+        const budget = tokenization.tokenBudget;
+        if (!budget || text.length <= budget) {
+            return text;
+        }
+        let tokens = await tokenization.countTokens(text);
+        const requested = sections.map(section => section.endLine);
+
+        let charBudget = budget * CHARS_PER_TOKEN;
+        for (let attempt = 0; attempt < MAX_FIT_ATTEMPTS && tokens > budget; attempt++) {
+            const bySize = sections
+                .map((section, i) => ({ section, requestedEnd: requested[i] }))
+                .filter(({ section }) => !section.error)
+                .sort((a, b) => this.rangeChars(a.section, a.requestedEnd) - this.rangeChars(b.section, b.requestedEnd));
+            let remaining = charBudget;
+            bySize.forEach(({ section, requestedEnd }, i) => {
+                const share = Math.floor(remaining / (bySize.length - i));
+                let used = 0;
+                let end = section.startLine - 1;
+                while (end < requestedEnd && used + section.lines[end].length + 8 <= share) {
+                    used += section.lines[end].length + 8;
+                    end++;
+                }
+                // Always show at least one line so paging makes progress
+                section.endLine = Math.max(section.startLine, end);
+                remaining -= used;
+            });
+
+            text = render();
+            tokens = await tokenization.countTokens(text);
+            charBudget = Math.floor(charBudget * (budget / tokens) * 0.9);
+        }
+        return text;
+    }
+
+    private rangeChars(section: FileSection, endLine: number): number {
+        return section.lines.slice(section.startLine - 1, endLine).reduce((total, line) => total + line.length + 8, 0);
     }
 
     async invoke(
@@ -25,30 +117,18 @@ export class FileReadTool implements vscode.LanguageModelTool<IFileOperationPara
         _token: vscode.CancellationToken
     ) {
         try {
-            const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
-            if (!workspacePath) {
-                throw new Error('No workspace folder found');
+            const requests = this.getRequests(options.input);
+            if (requests.length === 0) {
+                throw new Error('No file paths given');
             }
 
-            const filePaths = options.input.paths || (options.input.path ? [options.input.path] : []);
-            
-            const results = await Promise.all(filePaths.map(async (filePath) => {
-                const fullPath = path.join(workspacePath, filePath);
-                try {
-                    const content = await fs.readFile(fullPath, 'utf-8');
-                    return [
-                        '=' .repeat(80),
-                        `📝 File: ${filePath}`,
-                        '=' .repeat(80),
-                        this.addLineNumbers(content)
-                    ].join('\n');
-                } catch (err) {
-                    return `Error reading ${filePath}: ${(err as Error)?.message}`;
-                }
-            }));
+            const sections = await Promise.all(requests.map(request => this.readSection(request)));
+            const text = options.tokenizationOptions
+                ? await this.fitToBudget(sections, options.tokenizationOptions)
+                : sections.map(section => this.formatSection(section)).join('\n\n');
 
             return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(results.join('\n\n'))
+                new vscode.LanguageModelTextPart(text)
             ]);
         } catch (err: unknown) {
             return new vscode.LanguageModelToolResult([
@@ -61,8 +141,13 @@ export class FileReadTool implements vscode.LanguageModelTool<IFileOperationPara
             options: vscode.LanguageModelToolInvocationPrepareOptions<IFileOperationParams>,
             _token: vscode.CancellationToken
         ) {
+            const targets = this.getRequests(options.input).map(request =>
+                request.start_line || request.end_line
+                    ? `${request.path}:${request.start_line ?? 1}-${request.end_line ?? 'end'}`
+                    : request.path
+            );
             return {
-                invocationMessage: `Reading files: ${JSON.stringify(options.input.paths)}`
+                invocationMessage: `Reading files: ${JSON.stringify(targets)}`
             };
             
         }
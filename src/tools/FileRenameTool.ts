@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import { PathResolver } from '../components/PathResolver';
+import { DiagnosticsCollector } from '../components/DiagnosticsCollector';
+import { CheckpointManager } from '../components/CheckpointManager';
+import { describePath } from '../components/codeNavigation';
+
+interface IRenameFileParams {
+    path: string;
+    new_path: string;
+    overwrite?: boolean;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export class FileRenameTool implements vscode.LanguageModelTool<IRenameFileParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IRenameFileParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const source = await PathResolver.resolve(options.input.path);
+            const target = await PathResolver.resolve(options.input.new_path);
+            if (!source.relativePath) {
+                throw new Error('The workspace folder itself cannot be renamed');
+            }
+            if ((await fs.stat(source.fullPath)).isDirectory()) {
+                const denied = await PathResolver.findDeniedDescendant(source);
+                if (denied) {
+                    throw new Error(`${options.input.path} contains ${denied}`);
+                }
+            }
+            if (!options.input.overwrite && await exists(target.fullPath)) {
+                throw new Error(`${options.input.new_path} already exists; set overwrite to replace it`);
+            }
+
+            await CheckpointManager.recordBefore(source.fullPath);
+            await CheckpointManager.recordBefore(target.fullPath);
+            const dirtyBefore = new Set(vscode.workspace.textDocuments.filter(document => document.isDirty).map(document => document.uri.toString()));
+            const diagnosticsBefore = DiagnosticsCollector.snapshot();
+
+            // Applying the rename as a WorkspaceEdit runs onWillRenameFiles participants,
+            // which is how language servers update import paths
+            const targetUri = vscode.Uri.file(target.fullPath);
+            const edit = new vscode.WorkspaceEdit();
+            edit.renameFile(vscode.Uri.file(source.fullPath), targetUri, { overwrite: !!options.input.overwrite });
+            if (!await vscode.workspace.applyEdit(edit)) {
+                throw new Error('VS Code refused the edit');
+            }
+
+            const updated = vscode.workspace.textDocuments
+                .filter(document => document.isDirty && !dirtyBefore.has(document.uri.toString()))
+                .map(document => document.uri);
+            for (const uri of updated) {
+                // These had no unsaved changes before the rename, so the file on disk is their earlier state
+                await CheckpointManager.recordBefore(uri.fsPath, { fromDisk: true });
+            }
+            const updatedSection = updated.length
+                ? `\n\nReferences were updated (unsaved) in:\n${updated.map(uri => `- ${describePath(uri)}`).join('\n')}`
+                : '';
+            const diagnostics = await DiagnosticsCollector.reportNewProblems(diagnosticsBefore, [targetUri, ...updated]);
+
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Renamed ${source.displayPath} to ${target.displayPath}${updatedSection}\n\n${diagnostics}`)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error renaming ${options.input.path}: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IRenameFileParams>,
+        _token: vscode.CancellationToken
+    ) {
+        const autoConfirm = vscode.workspace.getConfiguration('cogent').get('autoConfirmTools.renameFile', false);
+
+        if (autoConfirm) {
+            return {
+                invocationMessage: `Renaming ${options.input.path} to ${options.input.new_path}`
+            };
+        }
+
+        return {
+            invocationMessage: `Renaming ${options.input.path} to ${options.input.new_path}`,
+            confirmationMessages: {
+                title: 'Rename File',
+                message: new vscode.MarkdownString(
+                    `Rename ${options.input.path} to ${options.input.new_path}${options.input.overwrite ? ', replacing the existing file' : ''}?`
+                )
+            }
+        };
+    }
+}
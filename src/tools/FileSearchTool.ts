@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import { WorkspaceIndex } from '../components/WorkspaceIndex';
+import { matchesAnyGlob } from '../components/globMatch';
+import { PathResolver } from '../components/PathResolver';
+
+interface ISearchFilesParams {
+    query: string;
+    is_regex?: boolean;
+    case_sensitive?: boolean;
+    include?: string[];
+    exclude?: string[];
+    max_results?: number;
+    context_lines?: number;
+}
+
+interface FileMatches {
+    path: string;
+    lines: string[];
+    /** 0-based indexes of matching lines */
+    matches: number[];
+}
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_RESULTS_LIMIT = 500;
+const DEFAULT_CONTEXT_LINES = 2;
+const MAX_CONTEXT_LINES = 10;
+const MAX_FILE_SIZE = 1024 * 1024;
+const MAX_LINE_CHARS = 300;
+
+export class FileSearchTool implements vscode.LanguageModelTool<ISearchFilesParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<ISearchFilesParams>,
+        token: vscode.CancellationToken
+    ) {
+        try {
+            if (!vscode.workspace.workspaceFolders?.length) {
+                throw new Error('No workspace folder found');
+            }
+
+            const input = options.input;
+            const pattern = this.buildPattern(input);
+            const maxResults = Math.min(Math.max(1, input.max_results ?? DEFAULT_MAX_RESULTS), MAX_RESULTS_LIMIT);
+            const contextLines = Math.min(Math.max(0, input.context_lines ?? DEFAULT_CONTEXT_LINES), MAX_CONTEXT_LINES);
+
+            const index = WorkspaceIndex.getInstance();
+            await index.whenReady();
+            // Globs match the paths as shown, which start with the folder's name in a multi-root workspace
+            const files = index.getFiles().filter(file =>
+                (!input.include?.length || matchesAnyGlob(file.path, input.include)) &&
+                !(input.exclude?.length && matchesAnyGlob(file.path, input.exclude)) &&
+                !PathResolver.getDeniedPattern(file.relativePath)
+            );
+
+            const results: FileMatches[] = [];
+            let matchCount = 0;
+            let limited = false;
+            for (const file of files) {
+                if (token.isCancellationRequested || limited) {
+                    break;
+                }
+                const content = await this.readText(file.fullPath);
+                if (content === undefined) {
+                    continue;
+                }
+
+                const lines = content.split(/\r?\n/);
+                const matches: number[] = [];
+                for (let i = 0; i < lines.length; i++) {
+                    if (pattern.test(lines[i])) {
+                        if (matchCount === maxResults) {
+                            limited = true;
+                            break;
+                        }
+                        matches.push(i);
+                        matchCount++;
+                    }
+                }
+                if (matches.length) {
+                    results.push({ path: file.path, lines, matches });
+                }
+            }
+
+            if (results.length === 0) {
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(`No matches for ${input.is_regex ? 'regex' : 'text'} "${input.query}" in ${files.length} files.`)
+                ]);
+            }
+
+            const summary = limited
+                ? `Showing the first ${matchCount} matches in ${results.length} files; results were limited by max_results, so narrow the query or the include globs to see more.`
+                : `Found ${matchCount} matches in ${results.length} files.`;
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart([
+                    summary,
+                    ...results.map(result => this.formatFile(result, contextLines))
+                ].join('\n\n'))
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error searching files: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    private buildPattern(input: ISearchFilesParams): RegExp {
+        if (!input.query) {
+            throw new Error('A search query is required');
+        }
+        const source = input.is_regex ? input.query : input.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        try {
+            return new RegExp(source, input.case_sensitive ? '' : 'i');
+        } catch (error) {
+            throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+        }
+    }
+
+    private async readText(filePath: string): Promise<string | undefined> {
+        try {
+            const stat = await fs.stat(filePath);
+            if (stat.size > MAX_FILE_SIZE) {
+                return undefined;
+            }
+            const buffer = await fs.readFile(filePath);
+            // Skip binary files
+            if (buffer.subarray(0, 8000).includes(0)) {
+                return undefined;
+            }
+            return buffer.toString('utf-8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Formats a file's matches with their context, merging overlapping ranges.
+     * Matching lines are marked with ">".
+     */
+    private formatFile(result: FileMatches, contextLines: number): string {
+        const ranges: { start: number; end: number }[] = [];
+        for (const match of result.matches) {
+            const start = Math.max(0, match - contextLines);
+            const end = Math.min(result.lines.length - 1, match + contextLines);
+            const last = ranges[ranges.length - 1];
+            if (last && start <= last.end + 1) {
+                last.end = end;
+            } else {
+                ranges.push({ start, end });
+            }
+        }
+
+        const matchSet = new Set(result.matches);
+        const width = String(ranges[ranges.length - 1].end + 1).length;
+        const sections = ranges.map(({ start, end }) => {
+            const lines: string[] = [];
+            for (let i = start; i <= end; i++) {
+                const line = result.lines[i].length > MAX_LINE_CHARS
+                    ? `${result.lines[i].slice(0, MAX_LINE_CHARS)}…`
+                    : result.lines[i];
+                lines.push(`${matchSet.has(i) ? '>' : ' '} ${String(i + 1).padStart(width, ' ')} | ${line}`);
+            }
+            return lines.join('\n');
+        });
+
+        return [`📝 File: ${result.path}`, sections.join('\n  ...\n')].join('\n');
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<ISearchFilesParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Searching files for ${options.input.is_regex ? 'regex ' : ''}"${options.input.query}"`
+        };
+    }
+}
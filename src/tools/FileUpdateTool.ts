@@ -1,8 +1,11 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
-import * as path from 'path';
 import { DiffView } from '../components/DiffView';
 import { UnsavedChangesDetector } from '../components/UnsavedChangesDetector';
+import { PathResolver } from '../components/PathResolver';
+import { DiagnosticsCollector } from '../components/DiagnosticsCollector';
+import { CheckpointManager } from '../components/CheckpointManager';
+import { PendingChangesManager } from '../components/PendingChangesManager';
 
 interface IFileOperationParams {
     path?: string;
@@ -18,17 +21,10 @@ export class FileUpdateTool implements vscode.LanguageModelTool<IFileOperationPa
         _token: vscode.CancellationToken
     ) {
         try {
-            const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
-            if (!workspacePath) {
-                throw new Error('No workspace folder found');
-            }
-            if (!options.input.path) {
-                throw new Error('File path is required');
-            }
-            const filePath = path.join(workspacePath, options.input.path);
+            const { fullPath: filePath } = await PathResolver.resolve(options.input.path ?? '');
             
             // Check for unsaved changes first
-            const unsavedChanges = await UnsavedChangesDetector.detectChanges(options.input.path);
+            const unsavedChanges = await UnsavedChangesDetector.detectChanges(filePath);
             const currentContent = unsavedChanges.editorContent || await fs.readFile(filePath, 'utf-8');
             
             // Check if file is too large using current content
@@ -40,6 +36,9 @@ export class FileUpdateTool implements vscode.LanguageModelTool<IFileOperationPa
                     )
                 ]);
             }
+            await CheckpointManager.recordBefore(filePath);
+            await PendingChangesManager.getInstance().track(filePath);
+            const diagnosticsBefore = DiagnosticsCollector.snapshot();
             this.diffView = new DiffView(filePath, currentContent);
             await this.diffView.show();
             
@@ -54,8 +53,10 @@ export class FileUpdateTool implements vscode.LanguageModelTool<IFileOperationPa
                 }
             }
 
+            const diagnostics = await DiagnosticsCollector.reportNewProblems(diagnosticsBefore, [vscode.Uri.file(filePath)]);
+
             return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(`Changes shown in diff view for ${options.input.path}. Review and save to apply changes.`)
+                new vscode.LanguageModelTextPart(`Changes shown in diff view for ${options.input.path}. Review and save to apply changes.\n\n${diagnostics}`)
             ]);
         } catch (err: unknown) {
             if (this.diffView) {
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
-import * as path from 'path';
+import { PathResolver } from '../components/PathResolver';
+import { CheckpointManager } from '../components/CheckpointManager';
+import { PendingChangesManager } from '../components/PendingChangesManager';
 
 interface IFileOperationParams {
     path?: string;
@@ -14,14 +16,7 @@ export class FileWriteTool implements vscode.LanguageModelTool<IFileOperationPar
         _token: vscode.CancellationToken
     ) {
         try {
-            const workspacePath = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
-            if (!workspacePath) {
-                throw new Error('No workspace folder found');
-            }
-            if (!options.input.path) {
-                throw new Error('File path is required');
-            }
-            const filePath = path.join(workspacePath, options.input.path);
+            const { fullPath: filePath } = await PathResolver.resolve(options.input.path ?? '');
 
             // Check if file already exists
             try {
@@ -33,6 +28,8 @@ export class FileWriteTool implements vscode.LanguageModelTool<IFileOperationPar
                 ]);
             } catch {
                 // File doesn't exist, proceed with creation
+                await CheckpointManager.recordBefore(filePath);
+                await PendingChangesManager.getInstance().track(filePath);
                 await fs.writeFile(filePath, options.input.content || '');
                 return new vscode.LanguageModelToolResult([
                     new vscode.LanguageModelTextPart(`File created successfully at ${options.input.path}`)
@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { BackgroundProcessManager } from '../components/BackgroundProcessManager';
+
+interface IProcessReadParams {
+    id: string;
+}
+
+export class ProcessReadTool implements vscode.LanguageModelTool<IProcessReadParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IProcessReadParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const result = BackgroundProcessManager.getInstance().read(options.input.id);
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(await BackgroundProcessManager.formatOutputWithin(result, options.tokenizationOptions))
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error reading process output: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IProcessReadParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Reading output of ${options.input.id}`
+        };
+    }
+}
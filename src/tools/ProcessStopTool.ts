@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { BackgroundProcessManager } from '../components/BackgroundProcessManager';
+
+interface IProcessStopParams {
+    id: string;
+}
+
+export class ProcessStopTool implements vscode.LanguageModelTool<IProcessStopParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IProcessStopParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const result = await BackgroundProcessManager.getInstance().stop(options.input.id);
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(await BackgroundProcessManager.formatOutputWithin(result, options.tokenizationOptions))
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error stopping process: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IProcessStopParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Stopping ${options.input.id}`
+        };
+    }
+}
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { BackgroundProcessManager } from '../components/BackgroundProcessManager';
+
+interface IProcessWriteParams {
+    id: string;
+    input: string;
+    newline?: boolean;
+}
+
+// Give the process a moment to react before reporting its output
+const RESPONSE_DELAY_MS = 500;
+
+export class ProcessWriteTool implements vscode.LanguageModelTool<IProcessWriteParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IProcessWriteParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const manager = BackgroundProcessManager.getInstance();
+            const { id, input, newline = true } = options.input;
+            manager.write(id, newline && !input.endsWith('\n') ? `${input}\n` : input);
+
+            await new Promise(resolve => setTimeout(resolve, RESPONSE_DELAY_MS));
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(await BackgroundProcessManager.formatOutputWithin(manager.read(id), options.tokenizationOptions))
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error sending input to process: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IProcessWriteParams>,
+        _token: vscode.CancellationToken
+    ) {
+        // Input to a process can run commands just like cogent_runCommand
+        const autoConfirm = vscode.workspace.getConfiguration('cogent').get('autoConfirmTools.runCommand', false);
+
+        if (autoConfirm) {
+            return {
+                invocationMessage: `Sending input to ${options.input.id}`
+            };
+        }
+
+        return {
+            invocationMessage: `Sending input to ${options.input.id}`,
+            confirmationMessages: {
+                title: 'Send Input to Process',
+                message: new vscode.MarkdownString(`Send \`${options.input.input}\` to ${options.input.id}?`)
+            }
+        };
+    }
+}
@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { formatLocations, isDeniedLocation, resolveSymbolTarget, toNavigationLocation } from '../components/codeNavigation';
+
+interface ISymbolDefinitionParams {
+    path: string;
+    line: number;
+    symbol: string;
+}
+
+export class SymbolDefinitionTool implements vscode.LanguageModelTool<ISymbolDefinitionParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<ISymbolDefinitionParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const { path, line, symbol } = options.input;
+            const { document, position } = await resolveSymbolTarget(path, line, symbol);
+            const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+                'vscode.executeDefinitionProvider', document.uri, position
+            ) ?? [];
+            const locations = results.map(toNavigationLocation).filter(location => !isDeniedLocation(location.uri));
+
+            if (locations.length === 0) {
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(
+                        `No definition found for "${symbol}" on line ${line} of ${path}. The language server may not support this file or may still be starting; try cogent_searchFiles instead.`
+                    )
+                ]);
+            }
+
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Definition of "${symbol}":\n\n${await formatLocations(locations)}`)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error finding definition: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<ISymbolDefinitionParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Finding definition of ${options.input.symbol}`
+        };
+    }
+}
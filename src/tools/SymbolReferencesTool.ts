@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { formatLocations, isDeniedLocation, resolveSymbolTarget, toNavigationLocation } from '../components/codeNavigation';
+
+interface ISymbolReferencesParams {
+    path: string;
+    line: number;
+    symbol: string;
+    include_declaration?: boolean;
+    max_results?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+
+export class SymbolReferencesTool implements vscode.LanguageModelTool<ISymbolReferencesParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<ISymbolReferencesParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const { path, line, symbol, include_declaration = false, max_results = DEFAULT_MAX_RESULTS } = options.input;
+            const { document, position } = await resolveSymbolTarget(path, line, symbol);
+            const results = await vscode.commands.executeCommand<vscode.Location[]>(
+                'vscode.executeReferenceProvider', document.uri, position
+            ) ?? [];
+
+            let locations = results.map(toNavigationLocation).filter(location => !isDeniedLocation(location.uri));
+            if (!include_declaration) {
+                // The reference provider always includes the symbol under the cursor
+                locations = locations.filter(location =>
+                    location.uri.toString() !== document.uri.toString() || !location.range.contains(position)
+                );
+            }
+
+            if (locations.length === 0) {
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(
+                        `No references found for "${symbol}" on line ${line} of ${path}. The language server may not support this file or may still be starting; try cogent_searchFiles instead.`
+                    )
+                ]);
+            }
+
+            const shown = locations.slice(0, Math.max(1, max_results));
+            const files = new Set(locations.map(location => location.uri.toString())).size;
+            const summary = shown.length < locations.length
+                ? `${locations.length} references to "${symbol}" in ${files} files; showing the first ${shown.length}:`
+                : `${locations.length} references to "${symbol}" in ${files} files:`;
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`${summary}\n\n${await formatLocations(shown)}`)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error finding references: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<ISymbolReferencesParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Finding references to ${options.input.symbol}`
+        };
+    }
+}
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { describePath, formatRange, isDeniedLocation, symbolKindName } from '../components/codeNavigation';
+
+interface ISymbolSearchParams {
+    query: string;
+    max_results?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 50;
+
+export class SymbolSearchTool implements vscode.LanguageModelTool<ISymbolSearchParams> {
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<ISymbolSearchParams>,
+        _token: vscode.CancellationToken
+    ) {
+        try {
+            const { query, max_results = DEFAULT_MAX_RESULTS } = options.input;
+            const symbols = (await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+                'vscode.executeWorkspaceSymbolProvider', query
+            ) ?? []).filter(symbol => !isDeniedLocation(symbol.location.uri));
+
+            if (symbols.length === 0) {
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(
+                        `No symbols match "${query}". Symbols are only found for languages with a running language server; try cogent_searchFiles instead.`
+                    )
+                ]);
+            }
+
+            // Exact name matches first, then workspace files before external ones
+            const rank = (symbol: vscode.SymbolInformation) =>
+                (symbol.name === query ? 0 : symbol.name.toLowerCase() === query.toLowerCase() ? 1 : 2) * 2 +
+                (describePath(symbol.location.uri).endsWith('(outside workspace)') ? 1 : 0);
+            const shown = [...symbols].sort((a, b) => rank(a) - rank(b)).slice(0, Math.max(1, max_results));
+
+            const lines = shown.map(symbol => {
+                const container = symbol.containerName ? ` in ${symbol.containerName}` : '';
+                return `- ${symbol.name} (${symbolKindName(symbol.kind)}${container}): ${describePath(symbol.location.uri)}, ${formatRange(symbol.location.range)}`;
+            });
+            const summary = shown.length < symbols.length
+                ? `${symbols.length} symbols match "${query}"; showing ${shown.length}:`
+                : `${symbols.length} symbols match "${query}":`;
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`${summary}\n${lines.join('\n')}`)
+            ]);
+        } catch (err: unknown) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`Error searching symbols: ${(err as Error)?.message}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<ISymbolSearchParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Searching symbols for "${options.input.query}"`
+        };
+    }
+}
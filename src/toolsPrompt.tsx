@@ -9,6 +9,7 @@ import {
     PromptPiece,
     PromptReference,
     PromptSizing,
+    TextChunk,
     ToolCall,
     ToolMessage,
     UserMessage
@@ -16,10 +17,11 @@ import {
 import { ToolResult } from '@vscode/prompt-tsx/dist/base/promptElements';
 import * as vscode from 'vscode';
 import { isTsxToolUserMetadata } from './toolParticipant';
-import { listImportantFiles } from './components/listFiles';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { WorkspaceIndex } from './components/WorkspaceIndex';
+import { collectToolPaths, RepoMap } from './components/RepoMap';
+import { ActiveRules, RulesResolver } from './components/RulesResolver';
 import { Logger } from './components/Logger';
+import { ShellResolver } from './components/ShellResolver';
 
 export interface ToolCallRound {
     response: string;
@@ -31,31 +33,41 @@ export interface ToolUserProps extends BasePromptElementProps {
     context: vscode.ChatContext;
     toolCallRounds: ToolCallRound[];
     toolCallResults: Record<string, vscode.LanguageModelToolResult>;
+    /** Instructions for the selected model from its cogent.models entry */
+    modelInstructions?: string;
+    /** Task instructions and context of the slash command the request used */
+    commandInstructions?: string;
 }
 
-export class ToolUserPrompt extends PromptElement<ToolUserProps, void> {
-    private async getCustomInstructions(): Promise<string> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return '';
-        }
+/**
+ * Paths of the files attached to a request with # or drag and drop.
+ */
+function getReferencedPaths(request: vscode.ChatRequest): string[] {
+    return request.references
+        .map(ref => ref.value instanceof vscode.Uri ? ref.value : ref.value instanceof vscode.Location ? ref.value.uri : undefined)
+        .filter((uri): uri is vscode.Uri => uri?.scheme === 'file')
+        .map(uri => uri.fsPath);
+}
 
-        try {
-            const rulesPath = path.join(workspaceFolder.uri.fsPath, '.cogentrules');
-            const content = await fs.readFile(rulesPath, 'utf-8');
-            return content.trim();
-        } catch (error) {
-            // File doesn't exist or can't be read, return empty string
-            return '';
-        }
+export class ToolUserPrompt extends PromptElement<ToolUserProps, void> {
+    private getCustomInstructions(): Promise<ActiveRules[]> {
+        return RulesResolver.resolve({
+            prompt: this.props.request.prompt,
+            referencedPaths: getReferencedPaths(this.props.request),
+            toolPaths: collectToolPaths(this.props.toolCallRounds.flatMap(round => round.toolCalls))
+        });
     }
 
-    private getProjectStructure() {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+    private async getProjectStructure(useFullWorkspace: boolean) {
+        const index = WorkspaceIndex.getInstance();
+        await index.whenReady();
+        if (!index.getFolders().length) {
             return { structure: 'No workspace folder found', contents: {} };
         }
-        return listImportantFiles(workspaceFolder.uri.fsPath);
+        return {
+            structure: index.getTree(),
+            contents: useFullWorkspace ? await index.getContents() : {}
+        };
     }
 
     private getOSLevel(): string {
@@ -66,14 +78,6 @@ export class ToolUserPrompt extends PromptElement<ToolUserProps, void> {
                 : 'Linux';
     }
 
-    private getShellType(): string {
-        return process.platform === 'win32' 
-            ? 'PowerShell' 
-            : process.platform === 'darwin'
-                ? 'zsh'
-                : 'bash';
-    }
-
     private addLineNumbers(content: string, startLine: number = 1): string {
         const lines = content.split('\n');
         const maxLineNumberWidth = String(startLine + lines.length - 1).length;
@@ -87,12 +91,14 @@ export class ToolUserPrompt extends PromptElement<ToolUserProps, void> {
 
     async render(_state: void, _sizing: PromptSizing) {
         const logger = Logger.getInstance();
-        const { structure, contents } = this.getProjectStructure();
+        const config = vscode.workspace.getConfiguration('cogent');
+        const useFullWorkspace = config.get('use_full_workspace', true);
+        const useRepoMap = config.get('repoMap.enabled', false);
+        const { structure, contents } = await this.getProjectStructure(useFullWorkspace);
         logger.debug(`Project file structure:\n ${structure}`);
-        const useFullWorkspace = vscode.workspace.getConfiguration('cogent').get('use_full_workspace', true);
         const customInstructions = await this.getCustomInstructions();
         const osLevel = this.getOSLevel();
-        const shellType = this.getShellType();
+        const shellType = ShellResolver.describe(await ShellResolver.resolve());
         
         const fileContentsSection = useFullWorkspace
             ? Object.entries(contents)
@@ -103,13 +109,30 @@ export class ToolUserPrompt extends PromptElement<ToolUserProps, void> {
             : '';
 
 
-        const customInstructionsSection = customInstructions 
-            ? `\n## User's Custom Instructions\nThe following additional instructions are provided by the user, and should be followed to the best of your ability without interfering with the TOOL USE guidelines.\n${customInstructions}`
+        // Later rules are more specific, so they are listed last and win on conflicts
+        const customInstructionsSection = customInstructions.length
+            ? `\n## User's Custom Instructions\nThe following additional instructions are provided by the user, and should be followed to the best of your ability without interfering with the TOOL USE guidelines. When rules conflict, follow the ones listed later.\n${customInstructions
+                .map(rules => `\n### From ${rules.source} (applies to ${rules.scope})\n${rules.content}`)
+                .join('\n')}`
+            : '';
+
+        const commandSection = this.props.commandInstructions
+            ? `\n## Current Task: /${this.props.request.command}\n${this.props.commandInstructions}`
+            : '';
+
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        const workspaceFoldersSection = workspaceFolders.length > 1
+            ? `This is a multi-root workspace with the folders ${workspaceFolders.map(folder => folder.name).join(', ')}. Paths start with the folder's name (e.g. "${workspaceFolders[1].name}/README.md"), in tool calls too. Commands run in ${workspaceFolders[0].name} unless cogent_runCommand is given another cwd.\n\n`
+            : '';
+
+        const modelInstructionsSection = this.props.modelInstructions
+            ? `\n## Model-Specific Instructions\n${this.props.modelInstructions}`
             : '';
 
         return (
             <>
                 <UserMessage>
+                    <references value={customInstructions.filter(rules => rules.uri).map(rules => new PromptReference(rules.uri!))} />
                     {`You are cogent, a coding assistant that combines technical mastery with innovative thinking. You excel at finding elegant solutions to complex problems and seeing angles others miss. Your approach balances pragmatic solutions with creative thinking.
 
 ## Core Strengths
@@ -119,10 +142,15 @@ export class ToolUserPrompt extends PromptElement<ToolUserProps, void> {
 - Turning requirements into efficient implementations
 
 ## Project Context
-📁 Directory Structure:
-
-${structure}
-${useFullWorkspace ? `\n📄 File Contents:\n${fileContentsSection}` : ''}
+${workspaceFoldersSection}`}
+                    {useRepoMap
+                        ? <RepoMapSection
+                            request={this.props.request}
+                            toolCallRounds={this.props.toolCallRounds}
+                            maxPromptShare={config.get('repoMap.maxPromptShare', 0.1)}
+                            priority={5} />
+                        : `📁 Directory Structure:\n\n${structure}\n`}
+                    {`${useFullWorkspace ? `\n📄 File Contents:\n${fileContentsSection}` : ''}
 
 ## User's OS Level
 - ${osLevel} (using ${shellType})
@@ -151,6 +179,13 @@ ${useFullWorkspace ? `\n📄 File Contents:\n${fileContentsSection}` : ''}
 3. cogent_runCommand
    - Avoid running dangerous commands
    - Run commands according to User's OS Level and Shell Type
+   - Commands run non-interactively in the workspace root, or in cwd when given; pass flags like --yes instead of waiting for prompts
+   - The result is a <command_result> block with exit_code, duration, timed_out, <stdout> and <stderr>
+   - Judge success by exit_code, not by the output; a non-zero exit_code or timed_out: true means the command failed
+   - Commands are killed after the command timeout; start dev servers, watchers and other long-running commands with background: true
+   - Give background processes a ready_pattern matching the line they print when ready (e.g. "Local:|listening on") so the tool returns as soon as they are up
+   - Long output is truncated to fit the context: error-like lines come first (with their line numbers), then the head and tail. The note names a log_id; use cogent_readCommandLog to read the omitted lines instead of re-running the command
+   - A background process returns an id: use cogent_readProcessOutput to check on it, cogent_sendProcessInput to answer prompts, and cogent_stopProcess when you no longer need it
    - When generating project scaffolding or templates:
 
     Initialize all files directly in the current working directory (.)
@@ -163,7 +198,12 @@ ${useFullWorkspace ? `\n📄 File Contents:\n${fileContentsSection}` : ''}
     ✗ Incorrect: create-react-app my-app (creates a new subdirectory)
 
 4. cogent_apply_diff
-   - Only a single operation is allowed per tool use.
+   - A diff may contain multiple SEARCH/REPLACE blocks; use one tool call for related changes (e.g. a rename across call sites)
+   - Use the files parameter to change several files in a single tool call
+   - All blocks are applied atomically: if any block fails to match, no file is changed and every failing block is reported
+   - Each SEARCH section must be unique in the file and must not overlap another block
+   - start_line and end_line are only used when the diff contains a single block
+   - If the result reports a fuzzy match, check the listed lines and tell the user which lines differed
    - Ensure all required imports are added or updated
    - The SEARCH section must exactly match existing content including whitespace and indentation.
    - If you're not confident in the exact content to search for, use the cogent_readFile tool first to get the exact content.
@@ -210,7 +250,68 @@ ${useFullWorkspace ? `\n📄 File Contents:\n${fileContentsSection}` : ''}
     start_line: 1
     end_line: 5
 
+    Multiple files:
+
+    files: [
+      { path: <First file path>, diff: <One or more search/replace blocks> },
+      { path: <Second file path>, diff: <One or more search/replace blocks> }
+    ]
+
+    Unified diff format:
+    - The diff may instead be a standard unified diff (set format: "unified" or let it be detected)
+    - Hunks need context lines; they are located near their @@ line numbers and tolerate small offsets and whitespace differences
+    - A patch with --- a/<path> and +++ b/<path> headers can change several files without the path parameter
+    - Do not use it to create or delete files
+
+    Example:
+    \`\`\`
+    --- a/calc.py
+    +++ b/calc.py
+    @@ -1,5 +1,3 @@
+     def calculate_total(items):
+    -    total = 0
+    -    for item in items:
+    -        total += item
+    -    return total
+    +    """Calculate total with 10% markup"""
+    +    return sum(item * 1.1 for item in items)
+    \`\`\`
+
+5. cogent_searchFiles
+   - Use it to find where something is defined or used instead of reading files on a guess
+   - Search for a literal string by default; set is_regex for patterns like "function\\s+handle\\w+"
+   - Narrow the search with include/exclude globs (e.g. "src/**/*.ts") when you know where to look
+   - Matching lines are marked with ">" and shown with their line numbers and context; read the file with cogent_readFile before editing it
+   - If results are limited by max_results, refine the query rather than raising the limit
+
+6. cogent_readFile
+   - When you only need part of a large file (e.g. around a search match), pass files: [{ path, start_line, end_line }]
+   - Large files are returned a page at a time; the header says "showing lines X-Y of N", and the footer gives the start_line to continue from
+   - Read only as much as you need; don't page through a whole large file when a line range will do
+
+7. cogent_goToDefinition, cogent_findReferences, cogent_searchSymbols, cogent_getFileOutline
+   - These use VS Code's language servers, so they understand imports, overloads and renames that text search misses
+   - Prefer cogent_findReferences over cogent_searchFiles before renaming or changing the signature of a symbol
+   - cogent_goToDefinition and cogent_findReferences take the path and line where the symbol appears and its name as written there
+   - Use cogent_getFileOutline on a large file to find the line range of a function, then read just that range with cogent_readFile
+   - Results give workspace-relative paths with line ranges you can pass straight to cogent_readFile or cogent_applyDiff
+   - If a tool finds nothing, the language server may not support that file type; fall back to cogent_searchFiles
+
+8. cogent_getDiagnostics
+   - cogent_applyDiff and cogent_updateFile report the errors and warnings an edit introduced, as "line:column severity message" with the line's text
+   - Fix new errors before telling the user the change is done; don't leave the workspace in a broken state
+   - Errors listed for files you didn't edit were caused by your change (e.g. a changed signature); fix the callers too
+   - Use cogent_getDiagnostics with paths to check files again after fixing, or without paths for problems across the workspace
+
+9. cogent_deleteFile, cogent_renameFile, cogent_createDirectory
+   - Use these instead of rm, mv or mkdir in cogent_runCommand
+   - cogent_renameFile also moves files and directories; import paths in other files are updated and listed in the result
+   - Check the listed files and the reported diagnostics after a rename, and fix any imports that weren't updated
+   - Deleting a directory requires recursive: true; delete only what the task calls for
+
 ${customInstructionsSection}
+${modelInstructionsSection}
+${commandSection}
 `}
                 </UserMessage>
                 <History context={this.props.context} priority={10} />
@@ -228,6 +329,54 @@ ${customInstructionsSection}
     }
 }
 
+interface RepoMapSectionProps extends BasePromptElementProps {
+    request: vscode.ChatRequest;
+    toolCallRounds: ToolCallRound[];
+    /** Share of the model's prompt tokens the map may use */
+    maxPromptShare: number;
+}
+
+/**
+ * The most relevant files with their outlines, as many as fit the map's share
+ * of the prompt. Each file is its own chunk, prioritized by rank, so less
+ * relevant files are pruned first when the whole prompt is too long.
+ */
+class RepoMapSection extends PromptElement<RepoMapSectionProps, void> {
+    async render(_state: void, sizing: PromptSizing) {
+        const share = Math.min(Math.max(this.props.maxPromptShare, 0), 1);
+        const budget = Math.min(sizing.tokenBudget, Math.floor(sizing.endpoint.modelMaxPromptTokens * share));
+        const entries = await RepoMap.build({
+            prompt: this.props.request.prompt,
+            referencedPaths: getReferencedPaths(this.props.request),
+            toolPaths: collectToolPaths(this.props.toolCallRounds.flatMap(round => round.toolCalls))
+        });
+
+        const shown: { text: string; rank: number }[] = [];
+        let used = 0;
+        let skipped = 0;
+        for (const entry of entries) {
+            const tokens = await sizing.countTokens(entry.text);
+            if (used + tokens <= budget) {
+                shown.push({ text: entry.text, rank: shown.length });
+                used += tokens;
+            } else if (++skipped > 20) {
+                // Stop looking for smaller entries that still fit
+                break;
+            }
+        }
+        Logger.getInstance().debug(`Repository map: ${shown.length} of ${entries.length} files in ${used} of ${budget} tokens`);
+
+        // Listed by path so related files stay together; rank decides what is pruned
+        const omitted = entries.length - shown.length;
+        return <>
+            {`🗺️ Repository Map (the ${shown.length} files most relevant to this request, with their top-level symbols${omitted ? `; ${omitted} more files are not listed, find them with cogent_searchFiles` : ''}):\n\n`}
+            {[...shown].sort((a, b) => a.text.localeCompare(b.text)).map(entry =>
+                <TextChunk priority={shown.length - entry.rank}>{entry.text}<br /></TextChunk>
+            )}
+        </>;
+    }
+}
+
 interface ToolCallsProps extends BasePromptElementProps {
     toolCallRounds: ToolCallRound[];
     toolCallResults: Record<string, vscode.LanguageModelToolResult>;